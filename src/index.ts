@@ -1,12 +1,15 @@
 import EventEmitter from 'events';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes, randomUUID } from 'crypto';
 
 import { MegaBuilder } from '@megaorm/builder';
 import { Col, Con, ref } from '@megaorm/builder';
-import { Select } from '@megaorm/builder';
+import { Delete, Insert, Select, Update, ASC, DESC } from '@megaorm/builder';
+import { Pagination } from '@megaorm/builder';
 import { UTC } from '@megaorm/utc';
 import { Row, Rows } from '@megaorm/driver';
-import { MegaPoolConnection } from '@megaorm/pool';
-import { isPostgreSQL } from '@megaorm/utils';
+import { MegaPool, MegaPoolConnection } from '@megaorm/pool';
+import { isMySQL, isPostgreSQL } from '@megaorm/utils';
 import {
   isArr,
   isArrOfFunc,
@@ -18,6 +21,8 @@ import {
   isFullArr,
   isFullObj,
   isFullStr,
+  isFunc,
+  isInt,
   isNum,
   isObj,
   isStr,
@@ -37,6 +42,207 @@ type Modifier = (value: any) => any;
  */
 type Modifiers = { [column: string]: Array<Modifier> };
 
+/**
+ * The supported relationship types, named after the `MegaModel` relationship helpers.
+ */
+type RelationType = 'OneToOne' | 'References' | 'OneToMany' | 'ManyToMany';
+
+/**
+ * Describes a relationship between the model and another model.
+ *
+ * - `type`: The relationship type (e.g., `OneToMany`).
+ * - `model`: The related model class, or a function returning it (useful for circular imports).
+ * - `table`: The link table name (`ManyToMany` only), defaults to `get.link(model)`.
+ * - `columns`: Extra link table columns to select (`ManyToMany` only).
+ */
+type Relation = {
+  type: RelationType;
+  model: typeof MegaModel | (() => typeof MegaModel);
+  table?: string;
+  columns?: Array<string>;
+};
+
+/**
+ * An object where each key is a relation name and the value is the relation definition.
+ */
+type Relations = { [name: string]: Relation };
+
+/**
+ * A function that refines an eager loading query (e.g., adds conditions, ordering or limits).
+ *
+ * @param query The `Selector` instance of the relation query.
+ */
+type Constraint = (query: Selector) => void;
+
+/**
+ * An object where each key is a relation path and the value is the constraint to apply on that relation.
+ */
+type Constraints = { [path: string]: Constraint };
+
+/**
+ * A function that adds conditions to a query.
+ *
+ * @param query The `SELECT`, `UPDATE` or `DELETE` query, limited to its condition methods.
+ */
+type Scope = (query: Conditional) => void;
+
+/**
+ * An object where each key is a scope name and the value is a function that adds the scope conditions to a query.
+ */
+type Scopes = { [name: string]: Scope };
+
+/**
+ * A tree of relations to eager load, where each node holds its constraint and nested relations.
+ */
+type Tree = { [name: string]: { constraint?: Constraint; children: Tree } };
+
+/**
+ * The built-in column casts.
+ */
+type CastType = 'boolean' | 'json' | 'date' | 'number' | 'decimal' | 'bigint';
+
+/**
+ * Converts a column value between its database and application representations.
+ *
+ * - `get`: Converts the database value when models are hydrated.
+ * - `set`: Converts the application value back before it's written (must return a `string`, `number` or `null`).
+ */
+interface Cast {
+  get(value: any): any;
+  set(value: any): string | number | null;
+}
+
+/**
+ * An object where each key is a column name and the value is a built-in cast, a cast class or a cast instance.
+ */
+type Casts = { [column: string]: CastType | Cast | (new () => Cast) };
+
+/**
+ * An object where each key is a column name and the value is its default value, or a function that returns it.
+ */
+type Defaults = { [column: string]: any };
+
+/**
+ * The columns made visible or hidden on a model instance, overriding the model's `visible` and `hidden`.
+ */
+type Visibility = { visible: Array<string>; hidden: Array<string> };
+
+/**
+ * The supported column types in validation rules.
+ */
+type RuleType = 'string' | 'number' | 'integer' | 'boolean';
+
+/**
+ * Describes how to validate a column before it's inserted or updated.
+ *
+ * - `required`: The value must not be `undefined`, `null` or an empty string.
+ * - `type`: The value type (e.g., `string`, `integer`).
+ * - `min` / `max`: The minimum and maximum length of strings, or value of numbers.
+ * - `pattern`: A regular expression the value must match.
+ * - `enum`: The allowed values.
+ * - `validate`: A custom predicate, can be async (e.g., uniqueness checks).
+ * - `message`: The message to use when the custom predicate fails.
+ */
+type Rule = {
+  required?: boolean;
+  type?: RuleType;
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  enum?: Array<any>;
+  validate?: (value: any, row: Row) => boolean | Promise<boolean>;
+  message?: string;
+};
+
+/**
+ * An object where each key is a column name and the value is the rule to validate that column.
+ */
+type Rules = { [column: string]: Rule };
+
+/**
+ * An object where each key is an invalid column name and the value is an array of error messages.
+ */
+type Errors = { [column: string]: Array<string> };
+
+/**
+ * A page of models returned by `paginate()`.
+ *
+ * - `data`: The models of the current page.
+ * - `total`: The total number of matching rows.
+ * - `page`: The current page number (starting from 1).
+ * - `perPage`: The number of models per page.
+ * - `lastPage`: The last page number (at least 1).
+ */
+type Page = {
+  data: Array<MegaModel>;
+  total: number;
+  page: number;
+  perPage: number;
+  lastPage: number;
+};
+
+/**
+ * Options accepted by `cursorPaginate()`.
+ *
+ * - `after`: The cursor of the page to start after (next page).
+ * - `before`: The cursor of the page to end before (previous page).
+ * - `limit`: The number of models per page (default is 10).
+ * - `orderBy`: The sort key, mapping columns to `ASC` or `DESC` (default is the primary key `ASC`).
+ */
+type CursorOptions = {
+  after?: string;
+  before?: string;
+  limit?: number;
+  orderBy?: { [column: string]: 'ASC' | 'DESC' };
+};
+
+/**
+ * A page of models returned by `cursorPaginate()`.
+ *
+ * - `data`: The models of the current page.
+ * - `next`: The cursor of the next page, if any.
+ * - `prev`: The cursor of the previous page, if any.
+ */
+type CursorPage = {
+  data: Array<MegaModel>;
+  next?: string;
+  prev?: string;
+};
+
+/**
+ * Options accepted by `upsert()`.
+ *
+ * - `conflict`: The unique columns that identify an existing row (e.g., `['email']`).
+ * - `update`: The columns to update when the row exists (default is all the inserted columns except `conflict` and `created_at`).
+ */
+type UpsertOptions = {
+  conflict: Array<string>;
+  update?: Array<string>;
+};
+
+/**
+ * Options accepted by `firstOrCreate()`, `firstOrNew()` and `updateOrCreate()`.
+ *
+ * - `lock`: Whether to select an existing record using `FOR UPDATE` inside a transaction (default is `false`).
+ */
+type LockOptions = { lock?: boolean };
+
+/**
+ * A function called with each batch or model by `chunk()`, `each()` and friends.
+ * @note Returning `false` (or a promise that resolves with `false`) stops the iteration.
+ */
+type Handler<T> = (value: T) => boolean | void | Promise<boolean | void>;
+
+/**
+ * A function that generates a new primary key value.
+ */
+type Generator = () => string | number;
+
+/**
+ * How primary keys are generated on insert: `uuid` (v4), `ulid`, or a custom generator.
+ */
+type KeyType = 'uuid' | 'ulid' | Generator;
+
 /**
  * Modifies the values in a row based on registered modifiers for each column.
  *
@@ -50,297 +256,3741 @@ function modify(model: typeof MegaModel, row: Row): Row {
     row[col] = modifiers.reduce((v, modifier) => modifier(v), row[col]);
   });
 
-  return row;
-}
+  return row;
+}
+
+/**
+ * Formats a date as a `YYYY-MM-DD hh:mm:ss` UTC datetime string.
+ *
+ * @param date The date to format.
+ * @returns The formatted datetime string.
+ */
+function datetime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * The Crockford's base32 alphabet used by ULIDs.
+ */
+const CROCKFORD = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Generates a ULID: a 48-bit timestamp followed by 80 random bits, encoded using Crockford's base32.
+ *
+ * @returns A 26 characters string that sorts by creation time.
+ * @note ULIDs generated within the same millisecond are not ordered between each other.
+ */
+function ulid(): string {
+  const bytes = randomBytes(16);
+  let time = Date.now();
+  let id = '';
+
+  for (let i = 0; i < 10; i++) {
+    id = CROCKFORD[time % 32] + id;
+    time = Math.floor(time / 32);
+  }
+
+  for (let i = 0; i < 16; i++) id += CROCKFORD[bytes[i] % 32];
+
+  return id;
+}
+
+/**
+ * The built-in casts, keyed by name.
+ */
+const CASTS: { [type in CastType]: Cast } = {
+  boolean: {
+    get: (value) => value === true || value === 1 || value === '1',
+    set: (value) => (value ? 1 : 0),
+  },
+  json: {
+    get: (value) => (isStr(value) ? JSON.parse(value) : value),
+    set: (value) => (isStr(value) ? value : JSON.stringify(value)),
+  },
+  date: {
+    get: (value) => {
+      if (value instanceof Date) return value;
+      if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value)) {
+        return new Date(`${value.replace(' ', 'T')}Z`); // UTC datetime
+      }
+
+      return new Date(value);
+    },
+    set: (value) => (value instanceof Date ? datetime(value) : value),
+  },
+  number: {
+    get: (value) => Number(value),
+    set: (value) => Number(value),
+  },
+  decimal: {
+    get: (value) => Number(value),
+    set: (value) => String(value),
+  },
+  bigint: {
+    get: (value) => BigInt(value),
+    set: (value) => String(value),
+  },
+};
+
+/**
+ * Casts the values in a row from their database representation based on registered casts.
+ *
+ * @param model The model class that contains the casts.
+ * @param row The row object to cast.
+ * @returns The casted row.
+ * @note `null` and `undefined` values are never casted.
+ */
+function cast(model: typeof MegaModel, row: Row): Row {
+  Object.keys(row).forEach((col) => {
+    const cast = model.get.cast(col);
+    if (isDefined(cast) && isDefined(row[col]) && row[col] !== null) {
+      row[col] = cast.get(row[col]);
+    }
+  });
+
+  return row;
+}
+
+/**
+ * Serializes the values in a row to their database representation based on registered casts.
+ *
+ * @param model The model class that contains the casts.
+ * @param row The row object to serialize.
+ * @returns The serialized row.
+ * @note `null` and `undefined` values are never serialized.
+ */
+function serialize(model: typeof MegaModel, row: Row): Row {
+  Object.keys(row).forEach((col) => {
+    const cast = model.get.cast(col);
+    if (isDefined(cast) && isDefined(row[col]) && row[col] !== null) {
+      row[col] = cast.set(row[col]);
+    }
+  });
+
+  return row;
+}
+
+/**
+ * Creates a model instance from a database row, after applying the casts and modifiers.
+ *
+ * @param model The model class to instantiate.
+ * @param row The database row.
+ * @returns The model instance.
+ */
+function hydrate(model: typeof MegaModel, row: Row): MegaModel {
+  const data = modify(model, cast(model, row));
+
+  hydrated.add(data);
+
+  return new model(data);
+}
+
+/**
+ * Assigns the registered `defaults` to the missing columns of a row or a model instance.
+ *
+ * @param model The model class that contains the defaults.
+ * @param target The row or the model instance to fill.
+ * @returns The given target.
+ * @note Function defaults are called for each target, so each one gets its own value (e.g., `() => []`).
+ */
+function fill<T extends object>(model: typeof MegaModel, target: T): T {
+  const defaults = model.get.defaults();
+
+  Object.keys(defaults).forEach((column) => {
+    if (isDefined(target[column])) return;
+
+    target[column] = isFunc(defaults[column])
+      ? defaults[column]()
+      : defaults[column];
+  });
+
+  return target;
+}
+
+/**
+ * Mutates the values in a row based on registered mutators for each column, before it's written.
+ *
+ * @param model The model class that contains the mutators.
+ * @param row The row object to mutate.
+ * @returns The mutated row with all column values processed by their respective mutators.
+ */
+function mutate(model: typeof MegaModel, row: Row): Row {
+  Object.keys(row).forEach((col) => {
+    const mutators = model.get.mutators(col);
+    row[col] = mutators.reduce((v, mutator) => mutator(v), row[col]);
+  });
+
+  return row;
+}
+
+/**
+ * Filters out specified columns from the original model object.
+ *
+ * @param ignore An array of column names to be excluded from the result.
+ * @param model The original object to filter.
+ * @returns A new object containing only the columns that are not in the `ignore` array.
+ */
+function filter(
+  ignore: string[],
+  model: Record<string, any>
+): Record<string, any> {
+  return Object.keys(model).reduce((result, key) => {
+    if (!ignore.includes(key)) result[key] = model[key];
+    return result;
+  }, {});
+}
+
+/**
+ * Encodes the sort key values of a row into an opaque cursor.
+ *
+ * @param values The sort key values.
+ * @returns The base64url encoded cursor.
+ */
+function encode(values: Array<string | number>): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+/**
+ * Decodes an opaque cursor back into its sort key values.
+ *
+ * @param cursor The cursor to decode.
+ * @param length The number of columns in the sort key.
+ * @returns The sort key values.
+ * @throws `MegaModelError` if the cursor is invalid or doesn't match the sort key.
+ */
+function decode(cursor: string, length: number): Array<string | number> {
+  let values: any;
+
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    values = undefined;
+  }
+
+  if (
+    !isArr(values) ||
+    values.length !== length ||
+    !values.every((value: any) => isStr(value) || isNum(value))
+  ) {
+    throw new MegaModelError(`Invalid cursor: ${String(cursor)}`);
+  }
+
+  return values;
+}
+
+/**
+ * Holds the current transaction, so all model operations inside a transaction callback share its connection.
+ */
+const storage = new AsyncLocalStorage<Transaction>();
+
+/**
+ * Holds the `Getter` instance of each model.
+ */
+const registry = new WeakMap<typeof MegaModel, Getter>();
+
+/**
+ * The key used to store the original column values of a model instance.
+ */
+const ORIGINAL = Symbol('ORIGINAL');
+
+/**
+ * Holds the rows passed to the constructor by `hydrate()`, so the `defaults` are not applied to them.
+ */
+const hydrated = new WeakSet<Row>();
+
+/**
+ * The key used to store the visibility overrides of a model instance.
+ */
+const VISIBILITY = Symbol('VISIBILITY');
+
+/**
+ * Creates a deep copy of a column value, so later in-place changes do not affect the copy.
+ *
+ * @param value The value to copy.
+ * @returns A copy of arrays, plain objects and dates, or the value itself otherwise.
+ */
+function clone(value: any): any {
+  if (value instanceof Date) return new Date(value.getTime());
+  if (isArr(value)) return value.map(clone);
+
+  if (isObj(value) && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.keys(value).reduce((copy, key) => {
+      copy[key] = clone(value[key]);
+      return copy;
+    }, {});
+  }
+
+  return value;
+}
+
+/**
+ * Tells whether two column values are the same.
+ *
+ * @param a The first value.
+ * @param b The second value.
+ * @returns `true` if both values are equal, objects are compared by their JSON representation.
+ */
+function same(a: any, b: any): boolean {
+  if (a === b) return true;
+
+  if (typeof a === 'object' && typeof b === 'object' && a && b) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  return false;
+}
+
+/**
+ * Stores the current column values of a model instance as its original values.
+ *
+ * @param model The model instance to take the snapshot of.
+ * @note Relations registered in the model's `relations` are not part of the snapshot.
+ */
+function snapshot(model: MegaModel): void {
+  const relations = model.model().get.relations();
+
+  const original = Object.keys(model).reduce((original, column) => {
+    if (!relations.includes(column)) original[column] = clone(model[column]);
+    return original;
+  }, {});
+
+  Object.defineProperty(model, ORIGINAL, {
+    value: original,
+    configurable: true,
+    enumerable: false,
+    writable: true,
+  });
+}
+
+/**
+ * Stores the current values of the given columns as their original values, so the other changes stay unsaved.
+ *
+ * @param model The model instance.
+ * @param columns The columns written to the database.
+ */
+function settle(model: MegaModel, columns: Array<string>): void {
+  const original = model[ORIGINAL];
+  columns.forEach((column) => (original[column] = clone(model[column])));
+}
+
+/**
+ * Retrieves the visibility overrides of a model instance, created on first access.
+ *
+ * @param model The model instance.
+ * @returns The columns made visible or hidden using `makeVisible()` and `makeHidden()`.
+ */
+function overrides(model: MegaModel): Visibility {
+  if (!isDefined(model[VISIBILITY])) {
+    Object.defineProperty(model, VISIBILITY, {
+      value: { visible: [], hidden: [] },
+      configurable: true,
+      enumerable: false,
+      writable: true,
+    });
+  }
+
+  return model[VISIBILITY];
+}
+
+/**
+ * Converts a column or relation value into its JSON representation.
+ *
+ * @param value The value to convert.
+ * @returns The serialized model for related models, the converted items for arrays, or the value itself otherwise.
+ */
+function plain(value: any): any {
+  if (value instanceof MegaModel) return value.toJSON();
+  if (isArr(value)) return value.map(plain);
+  return value;
+}
+
+/**
+ * Collects the primary key values of a model instance.
+ *
+ * @param model The model instance to read the key from.
+ * @returns The key values in the same order as the primary key columns.
+ * @throws `MegaModelError` if a key value is missing.
+ * @note The original values are preferred, so the key matches the stored row even if it's changed in memory.
+ */
+function identify(model: MegaModel): Array<any> {
+  return model
+    .model()
+    .get.keys()
+    .map((column) => {
+      const value = model.getOriginal(column);
+      return isDefined(value) ? value : model.valueOf(column);
+    });
+}
+
+/**
+ * Adds a condition that matches each column to its value, combined using `AND`.
+ *
+ * @param col The column selector of the condition.
+ * @param con The condition builder.
+ * @param columns The columns to match (e.g., the primary key columns).
+ * @param values The values to match, in the same order as the columns.
+ */
+function match(
+  col: Col,
+  con: Con,
+  columns: Array<string>,
+  values: Array<any>
+): void {
+  columns.forEach((column, index) => {
+    if (index > 0) con.and();
+    col(column).equal(values[index]);
+  });
+}
+
+/**
+ * Adds a condition that matches the columns to any of the given tuples.
+ *
+ * @param col The column selector of the condition.
+ * @param con The condition builder.
+ * @param columns The columns to match (e.g., the primary key columns).
+ * @param tuples The values to match, each tuple in the same order as the columns.
+ * @note A single column uses `IN`, and multiple columns use `((a = ? AND b = ?) OR (a = ? AND b = ?))`.
+ */
+function among(
+  col: Col,
+  con: Con,
+  columns: Array<string>,
+  tuples: Array<Array<any>>
+): void {
+  if (columns.length === 1) {
+    col(columns[0]).in(...tuples.map((tuple) => tuple[0]));
+    return;
+  }
+
+  con.open();
+
+  tuples.forEach((tuple, index) => {
+    if (index > 0) con.or();
+    con.open();
+    match(col, con, columns, tuple);
+    con.close();
+  });
+
+  con.close();
+}
+
+/**
+ * Builds a string that identifies the values of the given columns.
+ *
+ * @param row The model or row to read the values from.
+ * @param columns The columns to read.
+ * @returns The stringified value of a single column, or the JSON representation of multiple columns.
+ */
+function tag(row: MegaModel | Row, columns: Array<string>): string {
+  if (columns.length === 1) return String(row[columns[0]]);
+  return JSON.stringify(columns.map((column) => row[column]));
+}
+
+/**
+ * Groups models by the values of the given columns.
+ *
+ * @param models The models to group.
+ * @param columns The columns to group the models by.
+ * @returns A map where each key is the `tag()` of the columns values and the value is the list of models sharing it.
+ */
+function group(
+  models: Array<MegaModel>,
+  columns: Array<string>
+): Map<string, Array<MegaModel>> {
+  return models.reduce((groups, model) => {
+    const key = tag(model, columns);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(model);
+    return groups;
+  }, new Map<string, Array<MegaModel>>());
+}
+
+/**
+ * Collects the unique key values of the given columns.
+ *
+ * @param models The models to collect the keys from.
+ * @param columns The key column names.
+ * @returns An array of unique key tuples, models with a missing or invalid key value are skipped.
+ */
+function keys(
+  models: Array<MegaModel>,
+  columns: Array<string>
+): Array<Array<string | number>> {
+  const tuples = new Map<string, Array<string | number>>();
+
+  models.forEach((model) => {
+    const tuple = columns.map((column) => model[column]);
+    if (!tuple.every((key) => isNum(key) || isFullStr(key))) return;
+    tuples.set(tag(model, columns), tuple);
+  });
+
+  return Array.from(tuples.values());
+}
+
+/**
+ * Resolves the given primary key into a tuple of values.
+ *
+ * @param model The model class that defines the primary key columns.
+ * @param key A single value for simple keys, or an array of values for composite keys (e.g., `[1, 5]`).
+ * @returns The key values in the same order as the primary key columns, or `undefined` if the key is invalid.
+ */
+function tuple(
+  model: typeof MegaModel,
+  key: any
+): Array<number | string> | undefined {
+  const columns = model.get.keys();
+  const values = columns.length === 1 && !isArr(key) ? [key] : key;
+
+  if (!isArr(values) || values.length !== columns.length) return;
+  if (!values.every((value) => isNum(value) || isStr(value))) return;
+
+  return values;
+}
+
+/**
+ * Loads a single relation for a list of models using one query, and attaches the result to each model.
+ *
+ * @param model The model class of the given models.
+ * @param models The models to load the relation for.
+ * @param name The name of the relation to load.
+ * @param constraint An optional function to refine the relation query.
+ * @returns A promise that resolves with the loaded related models once they are attached.
+ */
+function attach(
+  model: typeof MegaModel,
+  models: Array<MegaModel>,
+  name: string,
+  constraint?: Constraint
+): Promise<Array<MegaModel>> {
+  return new Promise((resolve, reject) => {
+    const relation = model.get.relation(name);
+    const child = relation.model as typeof MegaModel;
+    const many = ['OneToMany', 'ManyToMany'].includes(relation.type);
+
+    const assign = (
+      groups: Map<string, Array<MegaModel>>,
+      columns: Array<string>
+    ) => {
+      models.forEach((m) => {
+        const related = groups.get(tag(m, columns)) || [];
+        m[name] = many ? related : related[0];
+      });
+    };
+
+    const constrain = (query: Selector) => {
+      return constraint ? query.constrain(constraint) : query;
+    };
+
+    if (relation.type === 'References') {
+      // Example SQL: SELECT FROM users WHERE id IN (1, 2, 3);
+      const values = keys(models, child.get.fks());
+      if (values.length === 0) {
+        assign(new Map(), child.get.fks());
+        return resolve([]);
+      }
+
+      return constrain(
+        child
+          .select()
+          .where((col, con) => among(col, con, child.get.keys(), values))
+      )
+        .exec()
+        .then((result) => {
+          assign(group(result, child.get.keys()), child.get.fks());
+          resolve(result);
+        })
+        .catch(reject);
+    }
+
+    const pks = model.get.keys();
+    const fks = model.get.fks();
+    const values = keys(models, pks);
+    if (values.length === 0) {
+      assign(new Map(), pks);
+      return resolve([]);
+    }
+
+    if (relation.type === 'ManyToMany') {
+      const table = isFullStr(relation.table)
+        ? relation.table
+        : model.get.link(child);
+
+      const columns = isArrOfStr(relation.columns) ? relation.columns : [];
+
+      // Example SQL: SELECT categories.*, category_post.post_id FROM categories
+      // INNER JOIN category_post ON categories.id = category_post.category_id
+      // WHERE category_post.post_id IN (1, 2, 3);
+      return constrain(
+        child
+          .select()
+          .col(
+            ...child.get.columns(),
+            ...fks.map((fk) => `${table}.${fk}`),
+            ...columns.map((col) => `${table}.${col}`)
+          )
+          .join(table, (col, con) =>
+            match(
+              col,
+              con,
+              child.get.keys().map((pk) => `${child.get.table()}.${pk}`),
+              child.get.fks().map((fk) => ref(`${table}.${fk}`))
+            )
+          )
+          .where((col, con) =>
+            among(
+              col,
+              con,
+              fks.map((fk) => `${table}.${fk}`),
+              values
+            )
+          )
+      )
+        .exec()
+        .then((result) => {
+          const groups = group(result, fks);
+
+          fks.forEach((fk) => {
+            if (!columns.includes(fk)) result.forEach((m) => delete m[fk]);
+          });
+
+          assign(groups, pks);
+          resolve(result);
+        })
+        .catch(reject);
+    }
+
+    // Example SQL: SELECT FROM posts WHERE user_id IN (1, 2, 3);
+    return constrain(
+      child.select().where((col, con) => among(col, con, fks, values))
+    )
+      .exec()
+      .then((result) => {
+        const groups = group(result, fks);
+
+        if (relation.type === 'OneToOne') {
+          for (const related of groups.values()) {
+            if (related.length > 1) {
+              return reject(
+                new MegaModelError(
+                  `Invalid OneToOne relationship: ${model.name} has more than one ${child.name}`
+                )
+              );
+            }
+          }
+        }
+
+        assign(groups, pks);
+        resolve(result);
+      })
+      .catch(reject);
+  });
+}
+
+/**
+ * Collects the scopes to add to a model query.
+ *
+ * @param model The model class that contains the scopes.
+ * @param names The names of the local scopes to add.
+ * @param excluded The names of the global scopes to skip.
+ * @returns The local scopes, followed by the global scopes that are not excluded.
+ * @throws `MegaModelError` if a local scope is not registered, or a global scope is invalid.
+ */
+function scopes(
+  model: typeof MegaModel,
+  names: Array<string>,
+  excluded: Array<string>
+): Array<Scope> {
+  const globals = model.get.globalScopes();
+
+  return [
+    ...names.map((name) => model.get.scope(name)),
+    ...Object.keys(globals)
+      .filter((name) => !excluded.includes(name))
+      .map((name) => globals[name]),
+  ];
+}
+
+/**
+ * Adds a relation path (e.g., `posts.comments.author`) to a relation tree.
+ *
+ * @param tree The relation tree to add the path to.
+ * @param path The dot separated relation path.
+ * @param constraint An optional constraint applied to the last relation in the path.
+ * @returns The updated relation tree.
+ * @throws `MegaModelError` if the path or the constraint is invalid.
+ */
+function plant(tree: Tree, path: string, constraint?: Constraint): Tree {
+  const names = isStr(path) ? path.split('.') : [];
+
+  if (names.length === 0 || names.some((name) => !isFullStr(name))) {
+    throw new MegaModelError(`Invalid relation: ${String(path)}`);
+  }
+
+  if (isDefined(constraint) && typeof constraint !== 'function') {
+    throw new MegaModelError(`Invalid ${path} relation constraint`);
+  }
+
+  names.reduce((branch, name, index) => {
+    if (!branch[name]) branch[name] = { children: {} };
+    if (index === names.length - 1 && constraint) {
+      branch[name].constraint = constraint;
+    }
+
+    return branch[name].children;
+  }, tree);
+
+  return tree;
+}
+
+/**
+ * Eager loads a relation tree for a list of models, running one query per relation.
+ *
+ * @param model The model class of the given models.
+ * @param models The models to load the relations for.
+ * @param tree The relation tree to load, nested relations are loaded on the related models.
+ * @returns A promise that resolves when all relations are attached.
+ */
+function eager(
+  model: typeof MegaModel,
+  models: Array<MegaModel>,
+  tree: Tree
+): Promise<void> {
+  if (models.length === 0) return Promise.resolve();
+
+  return Object.keys(tree).reduce(
+    (promise, name) =>
+      promise
+        .then(() => attach(model, models, name, tree[name].constraint))
+        .then((related) =>
+          eager(
+            model.get.relation(name).model as typeof MegaModel,
+            related,
+            tree[name].children
+          )
+        ),
+    Promise.resolve()
+  );
+}
+
+/**
+ * Checks a row against the rules registered in the model.
+ *
+ * @param model The model class that contains the rules.
+ * @param row The row to check.
+ * @param partial Whether to check only the columns present in the row (e.g., on update).
+ * @returns A promise that resolves with the error messages of each invalid column.
+ * @throws `MegaModelError` if a rule has an invalid type.
+ */
+function check(
+  model: typeof MegaModel,
+  row: Row,
+  partial: boolean
+): Promise<Errors> {
+  const rules = model.get.rules();
+  const errors: Errors = {};
+  const types = {
+    string: isStr,
+    number: isNum,
+    integer: Number.isInteger,
+    boolean: isBool,
+  };
+
+  const push = (column: string, message: string) => {
+    if (!isArr(errors[column])) errors[column] = [];
+    errors[column].push(message);
+  };
+
+  const predicates = Object.keys(rules).map((column) => {
+    const rule = rules[column];
+    const value = row[column];
+
+    if (partial && !Object.prototype.hasOwnProperty.call(row, column)) return;
+
+    if (!isDefined(value) || value === null || value === '') {
+      if (rule.required === true) push(column, `${column} is required`);
+      return;
+    }
+
+    if (isDefined(rule.type)) {
+      if (!isFunc(types[rule.type])) {
+        throw new MegaModelError(
+          `Invalid ${column} rule type in ${model.name} model: ${String(rule.type)}`
+        );
+      }
+
+      if (!types[rule.type](value)) {
+        return push(column, `${column} must be of type ${rule.type}`);
+      }
+    }
+
+    const size = isStr(value) ? value.length : value;
+    const unit = isStr(value) ? ' characters' : '';
+
+    if (isNum(rule.min) && isNum(size) && size < rule.min) {
+      push(column, `${column} must be at least ${rule.min}${unit}`);
+    }
+
+    if (isNum(rule.max) && isNum(size) && size > rule.max) {
+      push(column, `${column} must be at most ${rule.max}${unit}`);
+    }
+
+    if (rule.pattern instanceof RegExp && !rule.pattern.test(String(value))) {
+      push(column, `${column} format is invalid`);
+    }
+
+    if (isArr(rule.enum) && !rule.enum.includes(value)) {
+      push(column, `${column} must be one of: ${rule.enum.join(', ')}`);
+    }
+
+    // Custom predicates run only if the built-in rules pass
+    if (isArr(errors[column]) || !isFunc(rule.validate)) return;
+
+    return Promise.resolve(rule.validate(value, row)).then((valid) => {
+      if (valid) return;
+      push(
+        column,
+        isFullStr(rule.message) ? rule.message : `${column} is invalid`
+      );
+    });
+  });
+
+  return Promise.all(predicates).then(() => errors);
+}
+
+/**
+ * Validates a row, or multiple rows, against the rules registered in the model.
+ *
+ * @param model The model class that contains the rules.
+ * @param rows The row or rows to validate.
+ * @param partial Whether to validate only the columns present in each row (e.g., on update).
+ * @returns A promise that resolves if the rows are valid.
+ * @throws `MegaModelValidationError` if any row is invalid, for multiple rows the
+ * columns are prefixed with the row index (e.g., `0.email`).
+ */
+function validate(
+  model: typeof MegaModel,
+  rows: Row | Rows,
+  partial: boolean = false
+): Promise<void> {
+  const list: Rows = isArr(rows) ? (rows as Rows) : [rows as Row];
+
+  return Promise.all(list.map((row) => check(model, row, partial))).then(
+    (results) => {
+      const errors: Errors = {};
+
+      results.forEach((result, index) => {
+        Object.keys(result).forEach((column) => {
+          const key = isArr(rows) ? `${index}.${column}` : column;
+          errors[key] = result[column];
+        });
+      });
+
+      if (isFullObj(errors)) throw new MegaModelValidationError(errors);
+    }
+  );
+}
+
+/**
+ * Selects the first row matching the given column values.
+ *
+ * @param model The model class to select from.
+ * @param match An object mapping columns to the values to match (`null` matches `IS NULL`).
+ * @param lock Whether to lock the selected row using `FOR UPDATE`.
+ * @returns A promise that resolves with the first model, or `undefined` if no row matches.
+ * @note The values are mutated and serialized, so they match the stored values.
+ */
+function first(
+  model: typeof MegaModel,
+  match: Row,
+  lock: boolean
+): Promise<MegaModel | undefined> {
+  return new Promise((resolve, reject) => {
+    const values = serialize(model, mutate(model, { ...match }));
+    const query = model.select();
+
+    Object.keys(values).forEach((column, index) => {
+      if (index > 0) query.and();
+      query.where((col) =>
+        values[column] === null
+          ? col(column).isNull()
+          : col(column).equal(values[column])
+      );
+    });
+
+    if (lock) query.lockForUpdate();
+
+    query
+      .limit(1)
+      .exec()
+      .then((models) => resolve(models[0]))
+      .catch(reject);
+  });
+}
+
+/**
+ * Inserts a row, or selects the row inserted meanwhile by a concurrent call.
+ *
+ * @param model The model class to insert into.
+ * @param match An object mapping columns to the values to match.
+ * @param row The row to insert, including the `match` values.
+ * @param existing An optional function to apply to the matching model if the insert fails (e.g., to update it).
+ * @returns A promise that resolves with the inserted model, or the matching model if the insert fails.
+ *
+ * @notes
+ * - Concurrent inserts are only detected if a unique constraint covers the `match` columns.
+ * - Inside a transaction, the insert runs in a savepoint, so the transaction is still usable after a failed insert.
+ * - `MegaModelError` rejections (e.g., validation errors) are not retried.
+ */
+function create(
+  model: typeof MegaModel,
+  match: Row,
+  row: Row,
+  existing?: (model: MegaModel) => Promise<MegaModel>
+): Promise<MegaModel> {
+  return new Promise((resolve, reject) => {
+    const insert = () => model.insert(row);
+    const attempt = isDefined(storage.getStore())
+      ? model.transaction(insert)
+      : insert();
+
+    attempt.then(resolve).catch((error) => {
+      if (error instanceof MegaModelError) return reject(error);
+
+      first(model, match, false)
+        .then((found) => {
+          if (!isDefined(found)) return reject(error);
+          if (!isDefined(existing)) return resolve(found);
+          return existing(found).then(resolve);
+        })
+        .catch(reject);
+    });
+  });
+}
+
+/**
+ * Retrieves the version of a model instance used for optimistic locking.
+ *
+ * @param model The model instance to read the version from.
+ * @returns The original version value, or `undefined` if optimistic locking is disabled.
+ * @throws `MegaModelError` if the version value is missing or not an integer.
+ */
+function revision(model: MegaModel): number | undefined {
+  const column = model.model().get.versionColumn();
+
+  if (!isDefined(column)) return undefined;
+
+  const original = model.getOriginal(column);
+  const value = isDefined(original) ? original : model[column];
+
+  if (!isInt(Number(value)) || value === null) {
+    throw new MegaModelError(`Invalid ${column} value: ${String(value)}`);
+  }
+
+  return Number(value);
+}
+
+/**
+ * Increments the version of a model instance after its row was updated, if optimistic locking is enabled.
+ *
+ * @param model The model instance to update.
+ * @param current The original version of the instance.
+ * @returns The version column, or no columns if optimistic locking is disabled.
+ */
+function bump(model: MegaModel, current: number | undefined): Array<string> {
+  const column = model.model().get.versionColumn();
+
+  if (!isDefined(column)) return [];
+
+  model[column] = current + 1;
+  return [column];
+}
+
+/**
+ * Executes an `UPDATE` or `DELETE` query and resolves with the number of affected rows.
+ *
+ * @param model The model class that owns the builder.
+ * @param query The query to execute.
+ * @returns A promise that resolves with the number of affected rows.
+ *
+ * @notes
+ * - For `PostgreSQL`: The query returns `1 AS affected` for each row, and the returned rows are counted.
+ * - For `MySQL` & `SQLite`: The query is followed by `SELECT ROW_COUNT()` or `SELECT changes()` on the same connection.
+ * - Outside a transaction, both queries run in a transaction on a dedicated connection if the model has a `pool`,
+ *   so no other query can run between them and change the count. Otherwise, they run on the model connection.
+ */
+function affected(
+  model: typeof MegaModel,
+  query: Modify | Remove
+): Promise<number> {
+  const builder = model.get.builder();
+  const driver = builder.get.connection().driver;
+
+  if (isPostgreSQL(driver)) {
+    return query
+      .returning('1 AS affected')
+      .exec()
+      .then((rows: Rows) => (isArr(rows) ? rows.length : 0));
+  }
+
+  const sql = query.get.query();
+  const values = [].concat(...query.get.values());
+  const count = isMySQL(driver) ? 'ROW_COUNT()' : 'changes()';
+  const execute = (): Promise<number> => {
+    const builder = model.get.builder();
+
+    return builder
+      .raw(sql, values)
+      .then(() => builder.raw(`SELECT ${count} AS affected;`, []))
+      .then((rows: Rows) => (isArr(rows) ? Number(rows[0].affected) : 0));
+  };
+
+  if (isDefined(storage.getStore()) || !isDefined(model.pool)) {
+    return execute();
+  }
+
+  return model.transaction(execute);
+}
+
+/**
+ * Executes the `UPDATE` or `DELETE` query of a model instance, guarded by its version if optimistic locking is enabled.
+ *
+ * @param model The model class of the instance.
+ * @param query The query that targets the instance by its primary key.
+ * @param current The original version of the instance.
+ * @param action The name of the operation (e.g., `update`, `delete`).
+ * @returns A promise that resolves once the query is executed.
+ * @throws `MegaModelConflictError` if no record matches the version (it was changed or deleted meanwhile).
+ */
+function guard(
+  model: typeof MegaModel,
+  query: Modify | Remove,
+  current: number | undefined,
+  action: string
+): Promise<void> {
+  const version = model.get.versionColumn();
+
+  if (!isDefined(version)) return query.exec().then(() => undefined);
+
+  query.and().where((col) => col(version).equal(current));
+
+  return affected(model, query).then((count) => {
+    if (count > 0) return;
+
+    throw new MegaModelConflictError(
+      `Conflicting ${action} in ${model.name} model: ${version} ${current} is outdated`
+    );
+  });
+}
+
+/**
+ * Prepares an `UPDATE` query that increments or decrements a column.
+ *
+ * @param model The model class to update.
+ * @param column The column to increment or decrement.
+ * @param amount The amount to add or subtract.
+ * @param extra Additional values to update beside the column.
+ * @param operator The operator to use (`+` or `-`).
+ * @returns A promise that resolves with the query, the mutated row and its serialized data.
+ * @throws `MegaModelError` if the column, amount or extra values are invalid.
+ * @throws `MegaModelValidationError` if the extra values do not pass the model `rules`.
+ * @note If timestamps handling is enabled, the `updatedAt` column is updated as well.
+ * @note If optimistic locking is enabled, the `versionColumn` is incremented by `1` as well.
+ */
+function counter(
+  model: typeof MegaModel,
+  column: string,
+  amount: number,
+  extra: Row,
+  operator: '+' | '-'
+): Promise<{ query: Increment; row: Row; data: Row }> {
+  return new Promise((resolve, reject) => {
+    if (!isFullStr(column)) {
+      return reject(
+        new MegaModelError(`Invalid increment column: ${String(column)}`)
+      );
+    }
+
+    if (!isNum(amount) || !Number.isFinite(amount)) {
+      return reject(
+        new MegaModelError(`Invalid increment amount: ${String(amount)}`)
+      );
+    }
+
+    if (!isObj(extra)) {
+      return reject(new MegaModelError(`Invalid row: ${String(extra)}`));
+    }
+
+    const version = model.get.versionColumn();
+    const ignore = [...model.get.ignore(), column];
+
+    // The version is incremented by the query itself
+    if (isDefined(version)) ignore.push(version);
+
+    const row = mutate(model, filter(ignore, extra));
+
+    validate(model, row, true)
+      .then(() => {
+        if (model.get.timestamps()) {
+          row[model.get.updatedAt()] = UTC.get.datetime();
+        }
+
+        const data = serialize(model, { ...row });
+        const connection = model.get.builder().get.connection();
+        const query = new Increment(connection, column, operator, version)
+          .table(model.get.table())
+          .set({ [column]: amount, ...data });
+
+        resolve({ query, row, data });
+      })
+      .catch(reject);
+  });
+}
+
+/**
+ * A `WHERE` condition and the logical operator used to combine it with the previous conditions.
+ */
+type Clause = {
+  operator: 'AND' | 'OR';
+  condition: (col: Col, con: Con) => void;
+};
+
+/**
+ * A query that supports `WHERE` conditions (e.g., `Select`, `Update`, `Delete`).
+ */
+interface Conditional {
+  where(condition: (col: Col, con: Con) => void): this;
+  and(): this;
+  or(): this;
+  open(): this;
+  close(): this;
+}
+
+/**
+ * A `SELECT` clause recorded by the `Selector`, other than `WHERE`.
+ */
+type Part = {
+  clause:
+    | 'from'
+    | 'col'
+    | 'distinct'
+    | 'join'
+    | 'group'
+    | 'having'
+    | 'order'
+    | 'limit'
+    | 'offset'
+    | 'union';
+  apply: (query: Select) => void;
+};
+
+/**
+ * A `WHERE` condition or logical operator recorded by the `Selector`.
+ */
+type Token =
+  | { type: 'where'; condition: (col: Col, con: Con) => void }
+  | { type: 'and' | 'or' | 'open' | 'close' };
+
+/**
+ * All the clauses a `Selector` can record, other than `WHERE`.
+ */
+const CLAUSES: Array<Part['clause']> = [
+  'from',
+  'col',
+  'distinct',
+  'join',
+  'group',
+  'having',
+  'order',
+  'limit',
+  'offset',
+  'union',
+];
+
+/**
+ * The clauses a paginated copy of a `Selector` keeps, its limit and offset are replaced.
+ */
+const PAGE_CLAUSES: Array<Part['clause']> = [
+  'from',
+  'col',
+  'distinct',
+  'join',
+  'group',
+  'having',
+  'order',
+  'union',
+];
+
+/**
+ * Class for querying a model with local scopes, or without some of its global scopes.
+ *
+ * Each `scope()` or `withoutGlobalScope()` call on the model creates a new instance.
+ */
+class Scoped {
+  /**
+   * The `MegaModel` sub-class (e.g, `User`, `Product`)
+   */
+  private context: typeof MegaModel;
+
+  /**
+   * The names of the local scopes to add
+   */
+  private scopes: Array<string>;
+
+  /**
+   * The names of the global scopes to skip
+   */
+  private excluded: Array<string>;
+
+  /**
+   * Creates an instance of the `Scoped` class.
+   * @param context The model class to execute the queries on.
+   */
+  constructor(context: typeof MegaModel) {
+    this.context = context;
+    this.scopes = [];
+    this.excluded = [];
+  }
+
+  /**
+   * Adds the given local scopes, registered in the model's `scopes`.
+   * @param names The scope names (e.g., `active`, `published`).
+   * @returns The `Scoped` instance (`this`) to allow method chaining.
+   * @throws `MegaModelError` if a scope is not registered.
+   */
+  public scope(...names: Array<string>): this {
+    names.forEach((name) => this.context.get.scope(name));
+    this.scopes.push(...names);
+    return this;
+  }
+
+  /**
+   * Removes the given global scopes from the queries.
+   * @param names The global scope names (e.g., `tenant`).
+   * @returns The `Scoped` instance (`this`) to allow method chaining.
+   */
+  public withoutGlobalScope(...names: Array<string>): this {
+    this.excluded.push(...names);
+    return this;
+  }
+
+  /**
+   * Collects the scopes to add to the queries.
+   * @returns The local scopes, followed by the global scopes that are not removed.
+   */
+  public constraints(): Array<Scope> {
+    return scopes(this.context, this.scopes, this.excluded);
+  }
+
+  /**
+   * Select records from the model's associated table, with the scopes applied.
+   * @returns A `Selector` instance that can be used to build the query.
+   */
+  public select(): Selector {
+    return this.context
+      .select()
+      .withoutGlobalScope(...this.excluded)
+      .scope(...this.scopes);
+  }
+
+  /**
+   * Provides methods to perform `SELECT`, `UPDATE`, or `DELETE` operations based on a specified condition, with the scopes applied.
+   * @param condition A function that defines the condition for the `WHERE` clause.
+   * @returns A `Where` instance with methods to execute the corresponding SQL operation.
+   */
+  public where(condition: (col: Col, con: Con) => void): Where {
+    return new Where(this.context, condition, this);
+  }
+
+  /**
+   * Finds a model instance by its primary key, with the scopes applied.
+   *
+   * @param key The primary key of the model to search for, or a tuple for composite keys.
+   * @returns Promise resolves to the model instance, or `undefined` if no record matches the primary key.
+   */
+  public find(
+    key: number | string | Array<number | string>
+  ): Promise<MegaModel | void> {
+    return new Promise((resolve, reject) => {
+      const values = tuple(this.context, key);
+
+      if (!isDefined(values)) {
+        return reject(new MegaModelError(`Invalid key: ${String(key)}`));
+      }
+
+      this.select()
+        .where((col, con) => match(col, con, this.context.get.keys(), values))
+        .exec()
+        .then((models) => resolve(models[0]))
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Finds multiple model instances by their primary keys, with the scopes applied.
+   *
+   * @param keys An array of primary keys to search for, or tuples for composite keys.
+   * @returns Promise resolves to an array of model instances. If no models are found, it resolves to an empty array.
+   */
+  public findMany(
+    keys: Array<number | string | Array<number | string>>
+  ): Promise<Array<MegaModel>> {
+    return new Promise((resolve, reject) => {
+      if (!isFullArr(keys)) {
+        return reject(new MegaModelError(`Invalid keys: ${String(keys)}`));
+      }
+
+      const columns = this.context.get.keys();
+      const tuples =
+        columns.length === 1
+          ? keys.map((key) => [key])
+          : keys.map((key) => tuple(this.context, key));
+
+      if (!tuples.every((values) => isDefined(values))) {
+        return reject(new MegaModelError(`Invalid keys: ${String(keys)}`));
+      }
+
+      this.select()
+        .where((col, con) => among(col, con, columns, tuples))
+        .exec()
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+}
+
+/**
+ * Class for executing SQL operations (UPDATE, DELETE, SELECT) based on the conditions defined in `where()`.
+ *
+ * Each `where()` call creates a new instance, so concurrent queries never share their conditions.
+ */
+class Where {
+  /**
+   * The `MegaModel` sub-class (e.g, `User`, `Product`)
+   */
+  private context: typeof MegaModel;
+
+  /**
+   * The conditions to add to the `WHERE` clause
+   */
+  private clauses: Array<Clause>;
+
+  /**
+   * The scopes to apply to the queries
+   */
+  private scoped: Scoped;
+
+  /**
+   * Creates an instance of the `Where` class.
+   * @param context The model class to execute the queries on.
+   * @param condition The first condition of the `WHERE` clause.
+   * @param scoped The scopes to apply to the queries (default is the model global scopes).
+   */
+  constructor(
+    context: typeof MegaModel,
+    condition: (col: Col, con: Con) => void,
+    scoped?: Scoped
+  ) {
+    this.context = context;
+    this.clauses = [{ operator: 'AND', condition }];
+    this.scoped = scoped || new Scoped(context);
+  }
+
+  /**
+   * Adds a condition combined with the previous conditions using `AND`.
+   *
+   * @param condition A function that defines the condition.
+   * @returns The `Where` instance (`this`) to allow method chaining.
+   */
+  public andWhere(condition: (col: Col, con: Con) => void): this {
+    this.clauses.push({ operator: 'AND', condition });
+    return this;
+  }
+
+  /**
+   * Adds a condition combined with the previous conditions using `OR`.
+   *
+   * @param condition A function that defines the condition.
+   * @returns The `Where` instance (`this`) to allow method chaining.
+   * @note `AND` takes precedence over `OR`, so `where(a).andWhere(b).orWhere(c)` matches `(a AND b) OR c`.
+   */
+  public orWhere(condition: (col: Col, con: Con) => void): this {
+    this.clauses.push({ operator: 'OR', condition });
+    return this;
+  }
+
+  /**
+   * Adds the conditions to the `WHERE` clause of the given query.
+   *
+   * @param query The query to add the conditions to.
+   * @returns The given query.
+   * @note When there are multiple conditions, each one is wrapped in parentheses.
+   */
+  private apply<T extends Conditional>(query: T): T {
+    if (this.clauses.length === 1) {
+      query.where(this.clauses[0].condition);
+      return query;
+    }
+
+    this.clauses.forEach((clause, index) => {
+      if (index > 0) clause.operator === 'OR' ? query.or() : query.and();
+      query.open();
+      query.where(clause.condition);
+      query.close();
+    });
+
+    return query;
+  }
+
+  /**
+   * Adds the conditions and the scopes to the `WHERE` clause of the given query.
+   *
+   * @param query The query to add the conditions to.
+   * @returns The given query.
+   * @note The conditions and each scope are wrapped in parentheses and combined using `AND`.
+   */
+  private restrict<T extends Conditional>(query: T): T {
+    const constraints = this.scoped.constraints();
+
+    if (constraints.length === 0) return this.apply(query);
+
+    query.open();
+    this.apply(query).close();
+
+    constraints.forEach((constraint) => {
+      query.and().open();
+      constraint(query);
+      query.close();
+    });
+
+    return query;
+  }
+
+  /**
+   * Executes an UPDATE query on the table to modify the rows based on the provided data
+   * and the conditions defined by `where()`.
+   *
+   * @param row The data to update in the table.
+   * @returns A Promise that resolves when the update is complete, or rejects if an error occurs.
+   * @note The row values are passed through the registered `mutators` and `casts` before they are updated.
+   * @note If optimistic locking is enabled, the `versionColumn` of each row is incremented by `1` instead of being taken from the row.
+   */
+  public update(row: Row): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const version = this.context.get.versionColumn();
+      const data = isDefined(version) ? filter([version], row) : row;
+      const connection = this.context.get.builder().get.connection();
+      const query = new Modify(connection, version)
+        .table(this.context.get.table())
+        .set(serialize(this.context, mutate(this.context, data)));
+
+      this.restrict(query).exec().then(resolve).catch(reject);
+    });
+  }
+
+  /**
+   * Increments a column of the rows that match the conditions defined by `where()`.
+   *
+   * @param column The column to increment.
+   * @param by The amount to add (default is `1`).
+   * @param extra Additional values to update beside the column.
+   * @returns A Promise that resolves when the update is complete, or rejects if an error occurs.
+   * @note The column is set relative to its current value (e.g., `views = views + ?`), and `updatedAt` is updated if timestamps handling is enabled.
+   * @note If optimistic locking is enabled, the `versionColumn` of each row is incremented by `1` as well.
+   */
+  public increment(
+    column: string,
+    by: number = 1,
+    extra: Row = {}
+  ): Promise<void> {
+    return this.step(column, by, extra, '+');
+  }
+
+  /**
+   * Decrements a column of the rows that match the conditions defined by `where()`.
+   *
+   * @param column The column to decrement.
+   * @param by The amount to subtract (default is `1`).
+   * @param extra Additional values to update beside the column.
+   * @returns A Promise that resolves when the update is complete, or rejects if an error occurs.
+   * @note The column is set relative to its current value (e.g., `stock = stock - ?`), and `updatedAt` is updated if timestamps handling is enabled.
+   * @note If optimistic locking is enabled, the `versionColumn` of each row is incremented by `1` as well.
+   */
+  public decrement(
+    column: string,
+    by: number = 1,
+    extra: Row = {}
+  ): Promise<void> {
+    return this.step(column, by, extra, '-');
+  }
+
+  /**
+   * Increments or decrements a column of the rows that match the conditions defined by `where()`.
+   *
+   * @param column The column to increment or decrement.
+   * @param amount The amount to add or subtract.
+   * @param extra Additional values to update beside the column.
+   * @param operator The operator to use (`+` or `-`).
+   * @returns A Promise that resolves when the update is complete, or rejects if an error occurs.
+   */
+  private step(
+    column: string,
+    amount: number,
+    extra: Row,
+    operator: '+' | '-'
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      counter(this.context, column, amount, extra, operator)
+        .then(({ query }) => this.restrict(query).exec())
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Executes a DELETE query on the table to remove rows that match the conditions defined by `where()`.
+   *
+   * @returns A Promise that resolves when the delete is complete, or rejects if an error occurs.
+   * @note When soft deletes are enabled, matching rows are marked as deleted instead of being removed.
+   * @note If optimistic locking is enabled, the `versionColumn` of each marked row is incremented by `1` as well.
+   */
+  public delete(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.context.get.softDeletes()) {
+        return this.forceDelete().then(resolve).catch(reject);
+      }
+
+      const deletedAt = this.context.get.deletedAt();
+      const version = this.context.get.versionColumn();
+      const connection = this.context.get.builder().get.connection();
+
+      const query = new Modify(connection, version)
+        .table(this.context.get.table())
+        .set({ [deletedAt]: UTC.get.datetime() })
+        .open();
+
+      this.restrict(query)
+        .close()
+        .and()
+        .where((col) => col(deletedAt).isNull())
+        .exec()
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Executes a DELETE query on the table to permanently remove rows that match the conditions
+   * defined by `where()`, even when soft deletes are enabled.
+   *
+   * @returns A Promise that resolves when the delete is complete, or rejects if an error occurs.
+   */
+  public forceDelete(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const query = this.context.get
+        .builder()
+        .delete()
+        .from(this.context.get.table());
+
+      this.restrict(query).exec().then(resolve).catch(reject);
+    });
+  }
+
+  /**
+   * Restores soft deleted rows that match the conditions defined by `where()`.
+   *
+   * @returns A Promise that resolves when the restore is complete, or rejects if an error occurs.
+   * @note If optimistic locking is enabled, the `versionColumn` of each row is incremented by `1` as well.
+   */
+  public restore(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.context.get.softDeletes()) {
+        return reject(
+          new MegaModelError(
+            `Soft deletes are not enabled in ${this.context.name} model`
+          )
+        );
+      }
+
+      const version = this.context.get.versionColumn();
+      const connection = this.context.get.builder().get.connection();
+      const query = new Modify(connection, version)
+        .table(this.context.get.table())
+        .set({ [this.context.get.deletedAt()]: null });
+
+      this.restrict(query).exec().then(resolve).catch(reject);
+    });
+  }
+
+  /**
+   * Executes a SELECT query on the table to retrieve rows that match the conditions defined by `where()`.
+   *
+   * @returns A Promise that resolves with an array of `MegaModel` instances, or rejects if an error occurs.
+   */
+  public select(): Promise<Array<MegaModel>> {
+    return new Promise((resolve, reject) => {
+      this.apply(this.scoped.select()).exec().then(resolve).catch(reject);
+    });
+  }
+
+  /**
+   * Executes a SELECT query for a specific page of the rows that match the conditions defined by `where()`.
+   *
+   * @param page The page number to retrieve (starting from 1).
+   * @param perPage The number of models per page (default is 10).
+   * @returns A Promise that resolves with the page models and pagination details, or rejects if an error occurs.
+   */
+  public paginate(page: number, perPage?: number): Promise<Page> {
+    return new Promise((resolve, reject) => {
+      this.apply(this.scoped.select())
+        .page(page, perPage)
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Executes a SELECT query for the page located by a cursor, among the rows that match the conditions defined by `where()`.
+   *
+   * @param options The `after` or `before` cursor, the `limit` and the `orderBy` sort key.
+   * @returns A Promise that resolves with the page models and the `next` and `prev` cursors, or rejects if an error occurs.
+   */
+  public cursorPaginate(options?: CursorOptions): Promise<CursorPage> {
+    return new Promise((resolve, reject) => {
+      this.apply(this.scoped.select())
+        .cursorPaginate(options)
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Counts the rows that match the conditions defined by `where()`.
+   * @returns A Promise that resolves with the number of matching rows.
+   */
+  public count(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.apply(this.scoped.select())
+        .count()
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Sums the values of a column over the rows that match the conditions defined by `where()`.
+   * @param column The column to sum.
+   * @returns A Promise that resolves with the sum, or `0` if no rows match.
+   */
+  public sum(column: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.apply(this.scoped.select())
+        .sum(column)
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Averages the values of a column over the rows that match the conditions defined by `where()`.
+   * @param column The column to average.
+   * @returns A Promise that resolves with the average, or `null` if no rows match.
+   */
+  public avg(column: string): Promise<number | null> {
+    return new Promise((resolve, reject) => {
+      this.apply(this.scoped.select())
+        .avg(column)
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Finds the minimum value of a column over the rows that match the conditions defined by `where()`.
+   * @param column The column to check.
+   * @returns A Promise that resolves with the minimum value, or `null` if no rows match.
+   */
+  public min(column: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.apply(this.scoped.select())
+        .min(column)
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Finds the maximum value of a column over the rows that match the conditions defined by `where()`.
+   * @param column The column to check.
+   * @returns A Promise that resolves with the maximum value, or `null` if no rows match.
+   */
+  public max(column: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.apply(this.scoped.select())
+        .max(column)
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Checks whether at least one row matches the conditions defined by `where()`.
+   * @returns A Promise that resolves with `true` if a row matches, otherwise `false`.
+   */
+  public exists(): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.apply(this.scoped.select())
+        .exists()
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+}
+
+/**
+ * A cached metadata value and the static configuration values it was built from.
+ */
+type Entry = { source: any; other: any; value: any };
+
+/**
+ * Getter class with methods to access the model's state.
+ *
+ * Each model has its own instance. Plain settings are read directly, while the metadata that is
+ * expensive to build (e.g., cast instances, rules, relations) is built lazily and cached until the
+ * static configuration it was built from changes, or `invalidate()` is called.
+ */
+class Getter {
+  /**
+   * The `MegaModel` sub-class (e.g, `User`, `Product`)
+   */
+  private context: any;
+
+  /**
+   * The cached metadata, keyed by name
+   */
+  private cache: Map<string, Entry>;
+
+  /**
+   * Creates an instance of the `Getter` class.
+   * @param context The model class to access the configuration of.
+   */
+  constructor(context: typeof MegaModel) {
+    this.context = context;
+    this.cache = new Map();
+  }
+
+  /**
+   * Retrieves a cached metadata value, or builds and caches it.
+   *
+   * @param key The metadata name.
+   * @param source The static configuration value the metadata is built from.
+   * @param build A function that builds the metadata.
+   * @param other Another value the metadata depends on (e.g., the primary key columns).
+   * @returns The cached metadata if its sources did not change, otherwise the built metadata.
+   */
+  private memo<T>(key: string, source: any, build: () => T, other?: any): T {
+    const entry = this.cache.get(key);
+
+    if (
+      isDefined(entry) &&
+      entry.source === source &&
+      entry.other === other
+    ) {
+      return entry.value;
+    }
+
+    const value = build();
+    this.cache.set(key, { source, other, value });
+    return value;
+  }
+
+  /**
+   * Clears the cached metadata of the model.
+   * @note Call it after mutating the static configuration in place (e.g., pushing to `columns` or adding `rules`),
+   * reassigning a static property is detected automatically.
+   */
+  public invalidate(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Tells whether to enable or disable timestamps handling.
+   * @returns `True` if timestamps are enabled, otherwise `false`.
+   * @note Default return value is `true` if `this.timestamps` is invalid.
+   */
+  public timestamps(): boolean {
+    const timestamps = this.context.timestamps;
+    return isBool(timestamps) ? timestamps : true;
+  }
+
+  /**
+   * Retrieves the name of the 'createdAt' column.
+   * @returns  The name of the 'createdAt' column.
+   * @note Default return value is `'created_at'` if `this.createdAt` is invalid.
+   */
+  public createdAt(): string {
+    const createdAt = this.context.createdAt;
+    return isFullStr(createdAt) ? createdAt : 'created_at';
+  }
+
+  /**
+   * Retrieves the name of the 'updatedAt' column.
+   * @returns  The name of the 'updatedAt' column.
+   * @note Default return value is `'updated_at'` if `this.updatedAt` is invalid.
+   */
+  public updatedAt(): string {
+    const updatedAt = this.context.updatedAt;
+    return isFullStr(updatedAt) ? updatedAt : 'updated_at';
+  }
+
+  /**
+   * Tells whether to enable or disable soft deletes.
+   * @returns `True` if soft deletes are enabled, otherwise `false`.
+   * @note Default return value is `false` if `this.softDeletes` is invalid.
+   */
+  public softDeletes(): boolean {
+    const softDeletes = this.context.softDeletes;
+    return isBool(softDeletes) ? softDeletes : false;
+  }
+
+  /**
+   * Retrieves the name of the 'deletedAt' column.
+   * @returns  The name of the 'deletedAt' column.
+   * @note Default return value is `'deleted_at'` if `this.deletedAt` is invalid.
+   */
+  public deletedAt(): string {
+    const deletedAt = this.context.deletedAt;
+    return isFullStr(deletedAt) ? deletedAt : 'deleted_at';
+  }
+
+  /**
+   * Retrieves the name of the column used for optimistic locking.
+   * @returns The name of the version column, or `undefined` if optimistic locking is disabled.
+   * @note Default return value is `undefined` if `this.versionColumn` is invalid.
+   */
+  public versionColumn(): string | undefined {
+    const versionColumn = this.context.versionColumn;
+    return isFullStr(versionColumn) ? versionColumn : undefined;
+  }
+
+  /**
+   * Retrieves the name of the associated table.
+   * @returns  The table name.
+   * @throws `MegaModelError` if the table name is invalid.
+   */
+  public table() {
+    if (!isFullStr(this.context.table)) {
+      throw new MegaModelError(
+        `Invalid table name in ${this.context.name} model: ${String(
+          this.context.table
+        )}`
+      );
+    }
+    return this.context.table;
+  }
+
+  /**
+   * Retrieves an array of column names.
+   * @returns An array of fully qualified column names.
+   * @note Defaults to `table.*` if no columns are specified.
+   */
+  public columns(): Array<string> {
+    const table = this.table();
+    const columns = this.context.columns;
+
+    return this.memo(
+      'columns',
+      columns,
+      () => {
+        if (isArrOfStr(columns)) return columns.map((col) => `${table}.${col}`);
+        return [`${table}.*`];
+      },
+      table
+    );
+  }
+
+  /**
+   * Retrieves an array of column names to be ignored in update.
+   * @returns An array of ignored column names.
+   * @note Default return value is `[]` if `this.ignore` is invalid.
+   */
+  public ignore(): Array<string> {
+    const ignore = this.context.ignore;
+    return isArrOfStr(ignore) ? ignore : [];
+  }
+
+  /**
+   * Retrieves an array of column names to exclude from `toJSON()`.
+   * @returns An array of hidden column names.
+   * @note Default return value is `[]` if `this.hidden` is invalid.
+   */
+  public hidden(): Array<string> {
+    const hidden = this.context.hidden;
+    return isArrOfStr(hidden) ? hidden : [];
+  }
+
+  /**
+   * Retrieves an array of column names to include in `toJSON()`, all the others are excluded.
+   * @returns An array of visible column names.
+   * @note Default return value is `[]` (all columns are visible) if `this.visible` is invalid.
+   */
+  public visible(): Array<string> {
+    const visible = this.context.visible;
+    return isArrOfStr(visible) ? visible : [];
+  }
+
+  /**
+   * Retrieves the builder instance used for constructing queries.
+   * @returns The `MegaBuilder` instance.
+   * @throws `MegaModelError` if the builder is invalid.
+   * @note Inside a transaction callback, the transaction builder is returned instead.
+   */
+  public builder(): MegaBuilder {
+    const transaction = storage.getStore();
+
+    // Inside a transaction, all models use the transaction connection
+    if (isDefined(transaction)) return transaction.builder;
+
+    if (!isChildOf(this.context.builder, MegaBuilder)) {
+      throw new MegaModelError(
+        `Invalid builder in ${this.context.name} model: ${String(
+          this.context.builder
+        )}`
+      );
+    }
+
+    return this.context.builder;
+  }
+
+  /**
+   * Retrieves the pool used to acquire a dedicated connection for each transaction.
+   * @returns The `MegaPool` instance.
+   * @throws `MegaModelError` if the pool is invalid.
+   */
+  public pool(): MegaPool {
+    const pool = this.context.pool;
+
+    if (!isObj(pool) || !isFunc(pool.request)) {
+      throw new MegaModelError(
+        `Invalid pool in ${this.context.name} model: ${String(pool)}`
+      );
+    }
+
+    return pool;
+  }
+
+  /**
+   * Retrieves the primary key column names.
+   * @returns The primary key columns, one column for simple keys and more for composite keys (e.g., `['tenant_id', 'id']`).
+   * @note Default return value is `['id']` if `this.primaryKey` is invalid.
+   */
+  public keys(): Array<string> {
+    const pk = this.context.primaryKey;
+
+    return this.memo('keys', pk, () => {
+      if (isFullStr(pk)) return [pk];
+      if (isFullArr(pk) && pk.every((key) => isFullStr(key))) return [...pk];
+      return ['id'];
+    });
+  }
+
+  /**
+   * Retrieves the primary key column name.
+   * @returns The primary key column name.
+   * @throws `MegaModelError` if the model has a composite primary key, use `keys()` instead.
+   * @note Default return value is `'id'` if `this.primaryKey` is invalid.
+   */
+  public pk(): string {
+    const keys = this.keys();
+
+    if (keys.length > 1) {
+      throw new MegaModelError(
+        `Unsupported composite primary key in ${this.context.name} model: ${keys.join(', ')}`
+      );
+    }
+
+    return keys[0];
+  }
+
+  /**
+   * Retrieves the function that generates the primary key of inserted rows.
+   * @returns The key generator, or `undefined` if the primary key is assigned by the database.
+   * @note Default return value is `undefined` if `this.keyType` is invalid or the primary key is composite.
+   */
+  public generator(): Generator | undefined {
+    const keyType = this.context.keyType;
+
+    if (this.keys().length > 1) return undefined;
+    if (keyType === 'uuid') return randomUUID;
+    if (keyType === 'ulid') return ulid;
+    if (isFunc(keyType)) return keyType;
+    return undefined;
+  }
+
+  /**
+   * Retrieves the foreign key column names, one for each primary key column.
+   * @returns The foreign key columns (e.g., `['user_id']`, or `['tenant_id', 'user_id']` for composite keys).
+   * @note Default value is the singular form of the table name with each primary key column appended (e.g., `user_id`, `product_id`) if `this.foreignKey` is invalid.
+   */
+  public fks(): Array<string> {
+    const fk = this.context.foreignKey;
+    const keys = this.keys();
+
+    return this.memo(
+      'fks',
+      fk,
+      () => {
+        if (isFullStr(fk) && keys.length === 1) return [fk];
+
+        if (
+          isArr(fk) &&
+          fk.length === keys.length &&
+          fk.every((key) => isFullStr(key))
+        ) {
+          return [...fk];
+        }
+
+        const name = this.context.name.toLocaleLowerCase();
+        return keys.map((key) => `${name}_${key}`);
+      },
+      keys
+    );
+  }
+
+  /**
+   * Retrieves the foreign key column name.
+   * @returns The foreign key column name.
+   * @throws `MegaModelError` if the model has a composite primary key, use `fks()` instead.
+   * @note Default value is the singular form of the table name with `this.primaryKey` appended (e.g., `user_id`, `product_id`) if `this.foreignKey` is invalid.
+   */
+  public fk(): string {
+    const fks = this.fks();
+
+    if (fks.length > 1) {
+      throw new MegaModelError(
+        `Unsupported composite foreign key in ${this.context.name} model: ${fks.join(', ')}`
+      );
+    }
+
+    return fks[0];
+  }
+
+  /**
+   * Retrieves the name of the link table (`pivot`).
+   * @param model The model class to link to.
+   * @returns The name of the link table, typically in the format `'modelname_modelname'`.
+   * @throws `MegaModelError` if the provided `model` is not a subclass of `MegaModel`.
+   * @note The link table name is generated by combining both model names in alphabetical order, separated by an underscore (e.g., 'category_product').
+   */
+  public link(model: typeof MegaModel) {
+    if (!isSubclass(model, MegaModel)) {
+      throw new MegaModelError(`Invalid link model in ${this.context.name}`);
+    }
+    return [model.name, this.context.name].sort().join('_').toLowerCase();
+  }
+
+  /**
+   * Retrieves the event emitter instance used to trigger events.
+   * @returns The `EventEmitter` instance.
+   * @note If `this.emitter` is not already set, it will be initialized as a new `EventEmitter`.
+   */
+  public emitter() {
+    if (!isChildOf(this.context.emitter, EventEmitter)) {
+      this.context.emitter = new EventEmitter();
+    }
+    return this.context.emitter;
+  }
+
+  /**
+   * Retrieves modifiers registered for a specific column.
+   * @param column The column name to get modifiers for.
+   * @returns An array of modifiers registered for the column, or an empty array.
+   * @note Returns an empty array if no modifiers registered, or incorrect structure.
+   */
+  public modifiers(column: string): Array<Modifier> {
+    // Check if the column name is valid
+    if (!isFullStr(column)) return [];
+
+    // Check if the modifiers object exists
+    const modifiers = this.context.modifiers;
+    if (!isObj(modifiers)) return [];
+
+    // Check if the modifiers for the specific column exist and are valid functions
+    if (!isArrOfFunc(modifiers[column])) return [];
+
+    // Return the array of modifiers for the column
+    return modifiers[column];
+  }
+
+  /**
+   * Retrieves mutators registered for a specific column.
+   * @param column The column name to get mutators for.
+   * @returns An array of mutators registered for the column, or an empty array.
+   * @note Returns an empty array if no mutators registered, or incorrect structure.
+   */
+  public mutators(column: string): Array<Modifier> {
+    // Check if the column name is valid
+    if (!isFullStr(column)) return [];
+
+    // Check if the mutators object exists
+    const mutators = this.context.mutators;
+    if (!isObj(mutators)) return [];
+
+    // Check if the mutators for the specific column exist and are valid functions
+    if (!isArrOfFunc(mutators[column])) return [];
+
+    // Return the array of mutators for the column
+    return mutators[column];
+  }
+
+  /**
+   * Retrieves the cast registered for a specific column.
+   * @param column The column name to get the cast for.
+   * @returns The cast of the column, or `undefined` if no cast is registered.
+   * @throws `MegaModelError` if the registered cast is invalid.
+   */
+  public cast(column: string): Cast | undefined {
+    if (!isFullStr(column) || !isObj(this.context.casts)) return;
+
+    const value = this.context.casts[column];
+
+    if (!isDefined(value)) return;
+
+    return this.memo(`cast:${column}`, value, () => {
+      if (isStr(value) && isObj(CASTS[value])) return CASTS[value];
+
+      // Cast classes are instantiated once
+      const cast = isFunc(value) ? new value() : value;
+
+      if (isObj(cast) && isFunc(cast.get) && isFunc(cast.set)) return cast;
+
+      throw new MegaModelError(
+        `Invalid ${column} cast in ${this.context.name} model: ${String(cast)}`
+      );
+    });
+  }
+
+  /**
+   * Retrieves the validation rules registered for the model's columns.
+   * @returns An object where each key is a column name and the value is its rule.
+   * @note Default return value is `{}` if `this.rules` is invalid, and invalid column rules are ignored.
+   */
+  public rules(): Rules {
+    const rules = this.context.rules;
+
+    if (!isObj(rules)) return {};
+
+    return this.memo('rules', rules, () =>
+      Object.keys(rules).reduce((result, column) => {
+        if (isObj(rules[column])) result[column] = rules[column];
+        return result;
+      }, {})
+    );
+  }
+
+  /**
+   * Retrieves the default column values used for new models.
+   * @returns The model defaults.
+   * @note Default return value is `{}` if `this.defaults` is invalid.
+   */
+  public defaults(): Defaults {
+    const defaults = this.context.defaults;
+    return isObj(defaults) ? defaults : {};
+  }
+
+  /**
+   * Retrieves the names of the registered relations.
+   * @returns An array of relation names.
+   * @note Default return value is `[]` if `this.relations` is invalid.
+   */
+  public relations(): Array<string> {
+    const relations = this.context.relations;
+
+    return this.memo('relations', relations, () =>
+      isObj(relations) ? Object.keys(relations) : []
+    );
+  }
+
+  /**
+   * Retrieves the scope registered under a specific name.
+   * @param name The scope name (e.g., `active`).
+   * @returns The function that adds the scope conditions to a query.
+   * @throws `MegaModelError` if the scope is not registered or is not a function.
+   */
+  public scope(name: string): Scope {
+    const scope = isObj(this.context.scopes)
+      ? this.context.scopes[name]
+      : undefined;
+
+    if (!isFunc(scope)) {
+      throw new MegaModelError(
+        `Undefined scope in ${this.context.name} model: ${String(name)}`
+      );
+    }
+
+    return scope;
+  }
+
+  /**
+   * Retrieves the global scopes of the model.
+   * @returns An object where each key is a scope name and the value is the scope function.
+   * @throws `MegaModelError` if a global scope is not a function.
+   * @note Default return value is an empty object if `this.globalScopes` is invalid.
+   */
+  public globalScopes(): Scopes {
+    const scopes = this.context.globalScopes;
+
+    return this.memo('globalScopes', scopes, () => {
+      if (!isObj(scopes)) return {};
+
+      Object.keys(scopes).forEach((name) => {
+        if (isFunc(scopes[name])) return;
+        throw new MegaModelError(
+          `Invalid ${name} global scope in ${this.context.name} model`
+        );
+      });
+
+      return { ...scopes };
+    });
+  }
+
+  /**
+   * Retrieves the relation registered under a specific name.
+   * @param name The relation name (e.g., `posts`, `profile`).
+   * @returns The relation definition, with its `model` resolved to the related model class.
+   * @throws `MegaModelError` if the relation is not registered, or has an invalid type or model.
+   */
+  public relation(name: string): Relation {
+    const relation = isObj(this.context.relations)
+      ? this.context.relations[name]
+      : undefined;
+
+    if (!isObj(relation)) {
+      throw new MegaModelError(
+        `Undefined relation in ${this.context.name} model: ${String(name)}`
+      );
+    }
+
+    return this.memo(`relation:${name}`, relation, () =>
+      this.resolve(name, relation)
+    );
+  }
+
+  /**
+   * Validates a relation and resolves its model.
+   * @param name The relation name.
+   * @param relation The relation definition.
+   * @returns The relation definition, with its `model` resolved to the related model class.
+   * @throws `MegaModelError` if the relation has an invalid type or model.
+   */
+  private resolve(name: string, relation: any): Relation {
+    const types = ['OneToOne', 'References', 'OneToMany', 'ManyToMany'];
+
+    if (!types.includes(relation.type)) {
+      throw new MegaModelError(
+        `Invalid ${name} relation type in ${this.context.name} model: ${String(
+          relation.type
+        )}`
+      );
+    }
+
+    const model = isSubclass(relation.model, MegaModel)
+      ? relation.model
+      : typeof relation.model === 'function'
+      ? relation.model()
+      : undefined;
+
+    if (!isSubclass(model, MegaModel)) {
+      throw new MegaModelError(
+        `Invalid ${name} relation model in ${this.context.name} model`
+      );
+    }
+
+    return { ...relation, model };
+  }
+}
+
+/**
+ * The `Selector` class extends the `Select` class and provides methods to build and execute select queries.
+ * The difference with the base `Select` class is that the `exec` method resolves with an array of `MegaModel` instances instead of plain objects.
+ *
+ * The clauses are only recorded, then rendered on a new `Select` query when the query is first built.
+ *
+ * @extends Select
+ */
+class Selector extends Select {
+  /**
+   * The `MegaModel` sub-class (e.g, `User`, `Product`)
+   */
+  private model: typeof MegaModel;
+
+  /**
+   * The tree of relations to eager load
+   */
+  private relations: Tree;
+
+  /**
+   * The clauses other than `WHERE`, replayed when the query is built
+   */
+  private parts: Array<Part>;
+
+  /**
+   * The `Select` query rendered from the recorded clauses, until the next change
+   */
+  private rendered?: Select;
+
+  /**
+   * The conditions and operators of the `WHERE` clause, added outside `constrain()`
+   */
+  private tokens: Array<Token>;
+
+  /**
+   * The conditions and operators added by each `constrain()` call
+   */
+  private segments: Array<Array<Token>>;
+
+  /**
+   * The conditions and operators of the `constrain()` call in progress
+   */
+  private segment?: Array<Token>;
+
+  /**
+   * The number of parentheses opened using `open()` or `paren()`
+   */
+  private parens: number;
+
+  /**
+   * Which soft deleted rows to select: `without` them (default), `with` them, or `only` them
+   */
+  private trashed: 'without' | 'with' | 'only';
+
+  /**
+   * The names of the local scopes to add to the `WHERE` clause
+   */
+  private scopes: Array<string>;
+
+  /**
+   * The names of the global scopes removed from the query
+   */
+  private excluded: Array<string>;
+
+  /**
+   * The lock to acquire on the selected rows: `update` (exclusive) or `share`
+   */
+  private lock?: 'update' | 'share';
+
+  /**
+   * Creates an instance of the `Selector` class.
+   * @param connection The database connection to use.
+   * @param model The model class associated with the query.
+   */
+  constructor(connection: MegaPoolConnection, model: typeof MegaModel) {
+    super(connection);
+
+    // Set model
+    this.model = model;
+    this.init();
+
+    // Invalid global scopes fail when the query is created, not when it's executed
+    this.model.get.globalScopes();
+  }
+
+  /**
+   * Initializes the selector state.
+   */
+  private init(): void {
+    this.relations = {};
+    this.parts = [];
+    this.rendered = undefined;
+    this.tokens = [];
+    this.segments = [];
+    this.segment = undefined;
+    this.parens = 0;
+    this.trashed = 'without';
+    this.scopes = [];
+    this.excluded = [];
+    this.lock = undefined;
+  }
+
+  /**
+   * Records a clause to replay when the query is built.
+   * @param clause The clause type, used to replay the clauses in the SQL order.
+   * @param apply A function that adds the clause to the given query.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  private record(
+    clause: Part['clause'],
+    apply: (query: Select) => void
+  ): this {
+    this.rendered = undefined;
+    this.parts.push({ clause, apply });
+    return this;
+  }
+
+  /**
+   * Records a `WHERE` condition or operator, in the `constrain()` call in progress if any.
+   * @param token The condition or operator to record.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  private push(token: Token): this {
+    this.rendered = undefined;
+    (isDefined(this.segment) ? this.segment : this.tokens).push(token);
+    return this;
+  }
+
+  /**
+   * Creates a new `Selector` with the same conditions, scopes, lock and relations.
+   * @param clauses The clauses to keep, other than `WHERE`.
+   * @returns The new `Selector` instance.
+   */
+  private copy(clauses: Array<Part['clause']>): Selector {
+    const query = new Selector(this.connection, this.model);
+
+    query.relations = this.relations;
+    query.parts = this.parts.filter((part) => clauses.includes(part.clause));
+    query.tokens = [...this.tokens];
+    query.segments = [...this.segments];
+    query.trashed = this.trashed;
+    query.scopes = [...this.scopes];
+    query.excluded = [...this.excluded];
+    query.lock = this.lock;
+
+    return query;
+  }
+
+  /**
+   * Adds the model scopes as constraints.
+   * @note The local scopes are added first, then the global scopes.
+   */
+  private seal(): void {
+    scopes(this.model, this.scopes, this.excluded).forEach((scope) =>
+      this.constrain(scope)
+    );
+  }
+
+  /**
+   * Adds the `WHERE` clause to the given query.
+   * @param query The query to add the conditions to.
+   *
+   * @notes
+   * - The conditions are wrapped in parentheses when constraints follow them, or when the model has scopes or soft deletes.
+   * - Each constraint is wrapped in parentheses and combined with the previous conditions using `AND`.
+   * - The soft delete condition is added last.
+   */
+  private condition(query: Select): void {
+    const softDeletes = this.model.get.softDeletes();
+    const trashed = softDeletes && this.trashed !== 'with';
+    const segments = this.segments.filter((tokens) => tokens.length > 0);
+    const scoped =
+      this.scopes.length > 0 ||
+      Object.keys(this.model.get.globalScopes()).length > 0;
+
+    // The same conditions render the same way, even if the scopes are removed
+    const wrap = segments.length > 0 || scoped || softDeletes;
+
+    let conditioned = false;
+
+    const add = (tokens: Array<Token>, grouped: boolean) => {
+      if (tokens.length === 0) return;
+      if (conditioned) query.and();
+      if (grouped) query.open();
+
+      tokens.forEach((token) =>
+        token.type === 'where'
+          ? query.where(token.condition)
+          : query[token.type]()
+      );
+
+      if (grouped) query.close();
+      conditioned = true;
+    };
+
+    add(this.tokens, wrap);
+    segments.forEach((tokens) => add(tokens, true));
+
+    if (!trashed) return;
+
+    const column = `${this.model.get.table()}.${this.model.get.deletedAt()}`;
+
+    if (conditioned) query.and();
+    query.where((col) =>
+      this.trashed === 'only' ? col(column).not().isNull() : col(column).isNull()
+    );
+  }
+
+  /**
+   * Replays the recorded clauses on a new `Select` query, in the SQL order.
+   * @returns The `Select` query, with its values in the same order as its placeholders.
+   */
+  private render(): Select {
+    const query = new Select(this.connection);
+    const apply = (clauses: Array<Part['clause']>) =>
+      clauses.forEach((clause) =>
+        this.parts
+          .filter((part) => part.clause === clause)
+          .forEach((part) => part.apply(query))
+      );
+
+    apply(['from', 'col', 'distinct', 'join']);
+    this.condition(query);
+    apply(['group', 'having', 'order', 'limit', 'offset', 'union']);
+
+    return query;
+  }
+
+  /**
+   * Resets the `Selector` instance to its initial state, including the relations to eager load.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public reset(): this {
+    super.reset();
+    this.init();
+    return this;
+  }
+
+  /**
+   * Builds the final SQL `SELECT` query string, after adding the model scopes (e.g., soft deletes).
+   * @param subquery Whether to include or exclude the semicolon in the final result.
+   * @returns The constructed SQL `SELECT` query string.
+   *
+   * @notes
+   * - The recorded clauses are rendered once, and rendered again only if the query changes.
+   * - The scopes are added to a copy, so the query can be built many times.
+   */
+  public build(subquery?: boolean): string {
+    if (!isDefined(this.rendered)) {
+      const copy = this.copy(CLAUSES);
+      copy.seal();
+      this.rendered = copy.render();
+    }
+
+    const query = this.rendered.build(subquery);
+    const driver = this.connection.driver;
+
+    this.values = this.rendered.get.values();
+
+    // SQLite locks the whole database on write, so it has no locking clauses
+    if (!isDefined(this.lock) || !(isMySQL(driver) || isPostgreSQL(driver))) {
+      return query;
+    }
+
+    const clause =
+      this.lock === 'update'
+        ? 'FOR UPDATE'
+        : isMySQL(driver)
+        ? 'LOCK IN SHARE MODE'
+        : 'FOR SHARE';
+
+    return subquery
+      ? `${query} ${clause}`
+      : query.replace(/;$/, ` ${clause};`);
+  }
+
+  /**
+   * Specifies the columns to retrieve from the table.
+   * @param columns The columns to select from the table.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public col(...columns: Array<string>): this {
+    return this.record('col', (query) => query.col(...columns));
+  }
+
+  /**
+   * Specifies the table to select data from.
+   * @param name The name of the table to select data from.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public from(name: string): this {
+    return this.record('from', (query) => query.from(name));
+  }
+
+  /**
+   * Adds the `DISTINCT` keyword to the query.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public distinct(): this {
+    return this.record('distinct', (query) => query.distinct());
+  }
+
+  /**
+   * Adds an `OFFSET` clause to the query.
+   * @param value The number of rows to skip.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public offset(value: number): this {
+    return this.record('offset', (query) => query.offset(value));
+  }
+
+  /**
+   * Adds a `LIMIT` clause to the query.
+   * @param value The maximum number of rows to return.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public limit(value: number): this {
+    return this.record('limit', (query) => query.limit(value));
+  }
+
+  /**
+   * Adds an `INNER JOIN` clause to the query.
+   * @param table The name of the table to join with.
+   * @param condition A function to define the join condition.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public join(table: string, condition: (col: Col, con: Con) => void): this {
+    return this.record('join', (query) => query.join(table, condition));
+  }
+
+  /**
+   * Adds a `LEFT JOIN` clause to the query.
+   * @param table The name of the table to join with.
+   * @param condition A function to define the join condition.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public leftJoin(
+    table: string,
+    condition: (col: Col, con: Con) => void
+  ): this {
+    return this.record('join', (query) => query.leftJoin(table, condition));
+  }
+
+  /**
+   * Adds a `RIGHT JOIN` clause to the query.
+   * @param table The name of the table to join with.
+   * @param condition A function to define the join condition.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public rightJoin(
+    table: string,
+    condition: (col: Col, con: Con) => void
+  ): this {
+    return this.record('join', (query) => query.rightJoin(table, condition));
+  }
+
+  /**
+   * Adds a `GROUP BY` clause to the query.
+   * @param columns The columns to group by.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public groupBy(...columns: Array<string>): this {
+    return this.record('group', (query) => query.groupBy(...columns));
+  }
+
+  /**
+   * Adds an `ORDER BY` clause to the query.
+   * @param column The column to order by.
+   * @param type The type of ordering (`ASC` or `DESC`).
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public orderBy(column: string, type: typeof ASC | typeof DESC = ASC): this {
+    return this.record('order', (query) => query.orderBy(column, type));
+  }
+
+  /**
+   * Adds a `HAVING` clause to the query.
+   * @param condition A function to define the condition.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public having(condition: (col: Col, con: Con) => void): this {
+    return this.record('having', (query) => query.having(condition));
+  }
+
+  /**
+   * Adds a `UNION` clause to the query.
+   * @param subquery A function that receives a new `Select` instance to build the subquery.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public union(subquery: (select: Select) => void): this {
+    return this.record('union', (query) => query.union(subquery));
+  }
+
+  /**
+   * Adds a `UNION ALL` clause to the query.
+   * @param subquery A function that receives a new `Select` instance to build the subquery.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public unionAll(subquery: (select: Select) => void): this {
+    return this.record('union', (query) => query.unionAll(subquery));
+  }
+
+  /**
+   * Adds a `WHERE` clause to the query.
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public where(condition: (col: Col, con: Con) => void): this {
+    return this.push({ type: 'where', condition });
+  }
+
+  /**
+   * Adds an `AND` logical operator to the `WHERE` condition.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public and(): this {
+    return this.push({ type: 'and' });
+  }
+
+  /**
+   * Adds an `OR` logical operator to the `WHERE` condition.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public or(): this {
+    return this.push({ type: 'or' });
+  }
+
+  /**
+   * Opens a parenthesis for complex grouping of conditions in the `WHERE` clause.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public open(): this {
+    this.parens++;
+    return this.push({ type: 'open' });
+  }
+
+  /**
+   * Closes an opened parenthesis in the `WHERE` condition.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public close(): this {
+    this.parens--;
+    return this.push({ type: 'close' });
+  }
+
+  /**
+   * Opens a parenthesis, or closes the opened one.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public paren(): this {
+    return this.parens === 0 ? this.open() : this.close();
+  }
+
+  /**
+   * Refines the query using a constraint function.
+   * @param constraint A function that receives the `Selector` instance (e.g., `(q) => q.where(...).orderBy(...)`).
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   * @throws `MegaModelError` if the constraint is not a function.
+   *
+   * @notes
+   * - The conditions added by the constraint are wrapped in parentheses and combined with all the other conditions using `AND`.
+   * - The other conditions are wrapped too, so an `OR` never escapes its side (e.g., `(a OR b) AND (c)`).
+   */
+  public constrain(constraint: Constraint): this {
+    if (typeof constraint !== 'function') {
+      throw new MegaModelError(`Invalid constraint: ${String(constraint)}`);
+    }
+
+    const outer = this.segment;
+    const tokens: Array<Token> = [];
+
+    this.segment = tokens;
+    constraint(this);
+    this.segment = outer;
+
+    if (tokens.length === 0) return this;
+
+    // A nested constraint is grouped inside the constraint in progress
+    if (isDefined(outer)) {
+      if (outer.length > 0) outer.push({ type: 'and' });
+      outer.push({ type: 'open' }, ...tokens, { type: 'close' });
+      return this;
+    }
+
+    this.segments.push(tokens);
+    return this;
+  }
+
+  /**
+   * Adds the conditions of the given local scopes, registered in the model's `scopes`.
+   * @param names The scope names (e.g., `active`, `published`).
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   * @throws `MegaModelError` if a scope is not registered.
+   * @note The scopes are added when the query is built, each one wrapped in parentheses and combined with the conditions using `AND`.
+   */
+  public scope(...names: Array<string>): this {
+    names.forEach((name) => this.model.get.scope(name));
+    this.rendered = undefined;
+    this.scopes.push(...names);
+    return this;
+  }
+
+  /**
+   * Removes the given global scopes from the query.
+   * @param names The global scope names (e.g., `tenant`).
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public withoutGlobalScope(...names: Array<string>): this {
+    this.rendered = undefined;
+    this.excluded.push(...names);
+    return this;
+  }
+
+  /**
+   * Includes soft deleted rows in the result.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public withTrashed(): this {
+    this.rendered = undefined;
+    this.trashed = 'with';
+    return this;
+  }
+
+  /**
+   * Selects soft deleted rows only.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   */
+  public onlyTrashed(): this {
+    this.rendered = undefined;
+    this.trashed = 'only';
+    return this;
+  }
+
+  /**
+   * Locks the selected rows until the current transaction ends, so no one else can update, delete or lock them.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   *
+   * @notes
+   * - The query appends `FOR UPDATE` in MySQL and PostgreSQL.
+   * - The lock is ignored in SQLite, which locks the whole database on write.
+   * - The query rejects if it's not executed inside a transaction, where the lock would be released right away.
+   */
+  public lockForUpdate(): this {
+    this.lock = 'update';
+    return this;
+  }
+
+  /**
+   * Locks the selected rows until the current transaction ends, so no one else can update or delete them.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   *
+   * @notes
+   * - The query appends `LOCK IN SHARE MODE` in MySQL and `FOR SHARE` in PostgreSQL.
+   * - The lock is ignored in SQLite, which locks the whole database on write.
+   * - The query rejects if it's not executed inside a transaction, where the lock would be released right away.
+   */
+  public sharedLock(): this {
+    this.lock = 'share';
+    return this;
+  }
+
+  /**
+   * Tells whether the query can be executed with its lock.
+   * @returns `true` if no lock is requested, or the query runs on the connection of the current transaction.
+   */
+  private locked(): boolean {
+    if (!isDefined(this.lock)) return true;
+
+    const transaction = storage.getStore();
+    return isDefined(transaction) && transaction.connection === this.connection;
+  }
+
+  /**
+   * Eager loads the given relations once the query is executed.
+   * @param relations Relation names or dot paths (e.g., `posts`, `posts.comments.author`), or objects mapping paths to constraints.
+   * @returns The `Selector` instance (`this`) to allow method chaining.
+   * @throws `MegaModelError` if a relation path or constraint is invalid.
+   *
+   * @notes
+   * - Each relation is loaded using a single `IN (...)` query over the whole result set.
+   * - Nested relations are loaded on the related models, one query per level.
+   * - Constraints receive the relation `Selector`, so you can use `where()`, `orderBy()` and friends.
+   */
+  public with(...relations: Array<string | Constraints>): this {
+    relations.forEach((relation) => {
+      if (isObj(relation)) {
+        return Object.keys(relation).forEach((path) =>
+          plant(this.relations, path, relation[path])
+        );
+      }
+
+      plant(this.relations, relation as string);
+    });
+
+    return this;
+  }
+
+  /**
+   * Executes the query and resolves with an array of model instances.
+   * @returns A promise that resolves with an array of `MegaModel` instances.
+   * @throws `MegaModelError` if the query locks rows outside a transaction.
+   */
+  // @ts-ignore: Thanks for your help
+  public exec(): Promise<Array<MegaModel>> {
+    return new Promise((resolve, reject) => {
+      if (!this.locked()) {
+        return reject(
+          new MegaModelError(
+            `Cannot lock ${this.model.name} rows outside a transaction`
+          )
+        );
+      }
+
+      super
+        .exec()
+        .then((rows) => {
+          const models = rows.map((row) => hydrate(this.model, row));
+
+          return eager(this.model, models, this.relations).then(() =>
+            resolve(models)
+          );
+        })
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Alias for `exec` that returns the same result but provides a more readable API.
+   * @returns A promise that resolves with an array of MegaModel instances.
+   */
+  public all(): Promise<Array<MegaModel>> {
+    return this.exec(); // Calls the private exec() method
+  }
+
+  /**
+   * Executes a copy of the query with the given column instead of its columns, ignoring its ordering, limit and offset.
+   *
+   * @param column The column to select (e.g., `SUM(amount) AS sum`).
+   * @param limit The maximum number of rows to select.
+   * @returns A promise that resolves with the raw rows.
+   *
+   * @notes
+   * - The query itself is left untouched, so it can still be executed.
+   * - The lock is not applied, because PostgreSQL doesn't allow locking aggregated rows.
+   */
+  private aggregate(column: string, limit?: number): Promise<Rows> {
+    return new Promise((resolve, reject) => {
+      const query = this.copy([
+        'from',
+        'distinct',
+        'join',
+        'group',
+        'having',
+        'union',
+      ]);
+
+      query.lock = undefined;
+      query.col(column);
+      if (isDefined(limit)) query.limit(limit);
+
+      this.connection
+        .query(query.build(), query.get.values().flat())
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Executes the given column over the result rows of a copy of the query, ignoring its ordering, limit and offset.
+   *
+   * @param column The column to select from the subquery (e.g., `COUNT(*) AS count`).
+   * @returns A promise that resolves with the raw rows.
+   *
+   * @notes
+   * - The query is used as a subquery, so each result row counts once, even if it stands for many rows.
+   * - The lock is not applied, because PostgreSQL doesn't allow locking aggregated rows.
+   */
+  private derive(column: string): Promise<Rows> {
+    return new Promise((resolve, reject) => {
+      const query = this.copy([
+        'from',
+        'col',
+        'distinct',
+        'join',
+        'group',
+        'having',
+        'union',
+      ]);
+
+      query.lock = undefined;
+
+      this.connection
+        .query(
+          `SELECT ${column} FROM (${query.build(true)}) AS t;`,
+          query.get.values().flat()
+        )
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Tells whether the query has `DISTINCT`, `GROUP BY`, `HAVING` or `UNION` clauses, which make its result rows differ from the table rows.
+   * @returns `true` if the query must be aggregated using a subquery.
+   */
+  private grouped(): boolean {
+    return this.parts.some((part) =>
+      ['distinct', 'group', 'having', 'union'].includes(part.clause)
+    );
+  }
 
-/**
- * Filters out specified columns from the original model object.
- *
- * @param ignore An array of column names to be excluded from the result.
- * @param model The original object to filter.
- * @returns A new object containing only the columns that are not in the `ignore` array.
- */
-function filter(
-  ignore: string[],
-  model: Record<string, any>
-): Record<string, any> {
-  return Object.keys(model).reduce((result, key) => {
-    if (!ignore.includes(key)) result[key] = model[key];
-    return result;
-  }, {});
-}
+  /**
+   * Computes an aggregate function of a column over the rows matching the query conditions.
+   *
+   * @param func The aggregate function (e.g., `SUM`).
+   * @param column The column to aggregate.
+   * @returns A promise that resolves with the aggregate value, or `null` if no rows match.
+   * @throws `MegaModelError` if the column is invalid.
+   *
+   * @notes
+   * - Grouped queries are aggregated using a subquery, so the function runs over their result rows.
+   * - In a subquery, the column is referenced by its name (e.g., `users.age` becomes `age`), so it must be selected.
+   */
+  private compute(func: string, column: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+      if (!isFullStr(column)) {
+        return reject(
+          new MegaModelError(`Invalid ${func} column: ${String(column)}`)
+        );
+      }
 
-/**
- * Class for executing SQL operations (UPDATE, DELETE, SELECT) based on the condition defined in `where()`.
- */
-class Where {
-  private static condition: (col: Col, con: Con) => void;
+      const alias = func.toLowerCase();
+      const query = this.grouped()
+        ? this.derive(`${func}(${column.split('.').pop()}) AS ${alias}`)
+        : this.aggregate(`${func}(${column}) AS ${alias}`);
 
-  private static context: typeof MegaModel;
+      query
+        .then((rows) => {
+          const value = rows[0][alias];
+          resolve(isDefined(value) ? value : null);
+        })
+        .catch(reject);
+    });
+  }
 
   /**
-   * Executes an UPDATE query on the table to modify the rows based on the provided data
-   * and the condition defined by `where()`.
+   * Counts the rows matching the query conditions, ignoring its ordering, limit and offset.
+   * @returns A promise that resolves with the number of matching rows.
    *
-   * @param row The data to update in the table.
-   * @returns A Promise that resolves when the update is complete, or rejects if an error occurs.
+   * @notes
+   * - Queries with `DISTINCT`, `GROUP BY`, `HAVING` or `UNION` are counted using a subquery, so each result row counts once.
+   * - Other queries are counted directly, ignoring their columns.
    */
-  public static update(row: Row): Promise<void> {
+  public count(): Promise<number> {
     return new Promise((resolve, reject) => {
-      this.context.get
-        .builder()
-        .update()
-        .table(this.context.get.table())
-        .set(row)
-        .where(this.condition)
-        .exec()
-        .then(resolve)
+      const query = this.grouped()
+        ? this.derive('COUNT(*) AS count')
+        : this.aggregate('COUNT(*) AS count');
+
+      query.then((rows) => resolve(Number(rows[0].count))).catch(reject);
+    });
+  }
+
+  /**
+   * Sums the values of a column over the rows matching the query conditions.
+   * @param column The column to sum.
+   * @returns A promise that resolves with the sum, or `0` if no rows match.
+   * @throws `MegaModelError` if the column is invalid.
+   */
+  public sum(column: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.compute('SUM', column)
+        .then((value) => resolve(value === null ? 0 : Number(value)))
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Averages the values of a column over the rows matching the query conditions.
+   * @param column The column to average.
+   * @returns A promise that resolves with the average, or `null` if no rows match.
+   * @throws `MegaModelError` if the column is invalid.
+   */
+  public avg(column: string): Promise<number | null> {
+    return new Promise((resolve, reject) => {
+      this.compute('AVG', column)
+        .then((value) => resolve(value === null ? null : Number(value)))
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Finds the minimum value of a column over the rows matching the query conditions.
+   * @param column The column to check.
+   * @returns A promise that resolves with the minimum value, or `null` if no rows match.
+   * @throws `MegaModelError` if the column is invalid.
+   * @note The value is casted if the column has a registered cast.
+   */
+  public min(column: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.compute('MIN', column)
+        .then((value) =>
+          resolve(cast(this.model, { [column]: value })[column])
+        )
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Finds the maximum value of a column over the rows matching the query conditions.
+   * @param column The column to check.
+   * @returns A promise that resolves with the maximum value, or `null` if no rows match.
+   * @throws `MegaModelError` if the column is invalid.
+   * @note The value is casted if the column has a registered cast.
+   */
+  public max(column: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.compute('MAX', column)
+        .then((value) =>
+          resolve(cast(this.model, { [column]: value })[column])
+        )
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Checks whether at least one row matches the query conditions.
+   * @returns A promise that resolves with `true` if a row matches, otherwise `false`.
+   */
+  public exists(): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.aggregate('1 AS found', 1)
+        .then((rows) => resolve(rows.length > 0))
         .catch(reject);
     });
   }
 
   /**
-   * Executes a DELETE query on the table to remove rows that match the condition defined by `where()`.
+   * Executes the query for a specific page, along with the total number of matching rows.
    *
-   * @returns A Promise that resolves when the delete is complete, or rejects if an error occurs.
+   * @param page The page number to retrieve (starting from 1).
+   * @param perPage The number of models per page (default is 10).
+   * @returns A promise that resolves with the page models and pagination details.
+   *
+   * @notes
+   * - The count query is derived from the same `Selector`, so both queries share the same conditions.
+   * - The limit and offset are applied to a copy, so the query itself is left untouched.
+   * - Invalid `page` and `perPage` values fallback to `1` and `10`.
    */
-  public static delete(): Promise<void> {
+  public page(page: number, perPage: number = 10): Promise<Page> {
     return new Promise((resolve, reject) => {
-      this.context.get
-        .builder()
-        .delete()
-        .from(this.context.get.table())
-        .where(this.condition)
-        .exec()
-        .then(resolve)
+      if (!isInt(page) || page < 1) page = 1;
+      if (!isInt(perPage) || perPage < 1) perPage = 10;
+
+      this.count()
+        .then((total) =>
+          this.copy(PAGE_CLAUSES)
+            .limit(perPage)
+            .offset((page - 1) * perPage)
+            .exec()
+            .then((data) => {
+              const lastPage = Math.max(Math.ceil(total / perPage), 1);
+              resolve({ data, total, page, perPage, lastPage });
+            })
+        )
         .catch(reject);
     });
   }
 
   /**
-   * Executes a SELECT query on the table to retrieve rows that match the condition defined by `where()`.
+   * Executes the query for a specific page, with the same pagination details as `Select.paginate()`.
    *
-   * @returns A Promise that resolves with an array of `MegaModel` instances, or rejects if an error occurs.
+   * @param page The page number to retrieve (starting from 1).
+   * @param items The number of models per page (default is 10).
+   * @returns A promise that resolves with the page models (`result`), the `page` details and the `total` number of items and pages.
+   * @note Use `page()` to resolve with `{ data, total, page, perPage, lastPage }`, like `MegaModel.paginate()`.
    */
-  public static select(): Promise<Array<MegaModel>> {
+  public paginate(
+    page: number,
+    items: number = 10
+  ): Promise<Pagination<MegaModel>> {
     return new Promise((resolve, reject) => {
-      this.context
-        .select()
-        .where(this.condition)
-        .exec()
-        .then(resolve)
+      this.page(page, items)
+        .then(({ data, total, page, perPage }) => {
+          const pages = Math.ceil(total / perPage);
+
+          resolve({
+            result: data,
+            page: {
+              current: page,
+              prev: page > 1 ? page - 1 : undefined,
+              next: page < pages ? page + 1 : undefined,
+              items: perPage,
+            },
+            total: { pages, items: total },
+          });
+        })
         .catch(reject);
     });
   }
-}
 
-/**
- * Getter class with methods to access the model's state.
- */
-class Getter {
-  private static context: any;
+  /**
+   * Executes the query for the page located by a cursor, using keyset pagination instead of `OFFSET`.
+   *
+   * @param options The `after` or `before` cursor, the `limit` and the `orderBy` sort key.
+   * @returns A promise that resolves with the page models and the `next` and `prev` cursors.
+   * @throws `MegaModelError` if the options or the cursor are invalid.
+   *
+   * @notes
+   * - The primary key columns are appended to the sort key as a tie-breaker, so the order is always unique.
+   * - The sort key is compared using `OR` and `AND` conditions, so it works the same in MySQL, PostgreSQL and SQLite.
+   * - The sort key columns must be selected, not nullable and have no modifiers, because cursors are built from the models.
+   * - The conditions, ordering and limit are added to a copy, so the query itself is left untouched.
+   * - Invalid `limit` values fallback to `10`.
+   */
+  public cursorPaginate(options: CursorOptions = {}): Promise<CursorPage> {
+    return new Promise((resolve, reject) => {
+      if (!isObj(options)) {
+        return reject(
+          new MegaModelError(`Invalid cursor options: ${String(options)}`)
+        );
+      }
+
+      const { after, before } = options;
+      const orderBy = isDefined(options.orderBy) ? options.orderBy : {};
+      const limit =
+        isInt(options.limit) && options.limit > 0 ? options.limit : 10;
+
+      if (
+        !isObj(orderBy) ||
+        Object.values(orderBy).some((type) => !['ASC', 'DESC'].includes(type))
+      ) {
+        return reject(
+          new MegaModelError(`Invalid cursor orderBy: ${String(orderBy)}`)
+        );
+      }
+
+      if (isDefined(after) && isDefined(before)) {
+        return reject(
+          new MegaModelError(`Cannot paginate both after and before a cursor`)
+        );
+      }
+
+      const query = this.copy(PAGE_CLAUSES);
+      const table = this.model.get.table();
+      const pks = this.model.get.keys();
+      const name = (column: string) => column.split('.').pop();
+      const qualify = (column: string) =>
+        column.includes('.') ? column : `${table}.${column}`;
+
+      const keys = Object.keys(orderBy).map((column) => ({
+        column,
+        type: orderBy[column],
+      }));
+
+      const type = keys.length > 0 ? keys[keys.length - 1].type : 'ASC';
+
+      pks.forEach((pk) => {
+        if (keys.some((key) => name(key.column) === pk)) return;
+        keys.push({ column: pk, type });
+      });
+
+      // Paging backward flips the order, then the page is reversed back
+      const backward = isDefined(before);
+      const ascending = (type: string) => (type === 'ASC') !== backward;
+
+      let values: Array<string | number>;
+
+      try {
+        if (isDefined(after)) values = decode(after, keys.length);
+        if (isDefined(before)) values = decode(before, keys.length);
+      } catch (error) {
+        return reject(error);
+      }
+
+      // (a > ? OR (a = ? AND b > ?)) is supported by all dialects and allows mixed directions
+      if (isDefined(values)) {
+        query.constrain((selector) => {
+          keys.forEach((key, index) => {
+            if (index > 0) selector.or().open();
+
+            keys.slice(0, index).forEach((previous, i) => {
+              selector
+                .where((col) => col(qualify(previous.column)).equal(values[i]))
+                .and();
+            });
+
+            selector.where((col) =>
+              ascending(key.type)
+                ? col(qualify(key.column)).greaterThan(values[index])
+                : col(qualify(key.column)).lessThan(values[index])
+            );
+
+            if (index > 0) selector.close();
+          });
+        });
+      }
+
+      keys.forEach((key) => {
+        query.orderBy(qualify(key.column), ascending(key.type) ? ASC : DESC);
+      });
+
+      const cursor = (model: MegaModel) => {
+        const row = keys.reduce((row, key) => {
+          row[name(key.column)] = model[name(key.column)];
+          return row;
+        }, {});
+
+        serialize(this.model, row);
+
+        return encode(
+          keys.map((key) => {
+            const value = row[name(key.column)];
+
+            if (isStr(value) || isNum(value)) return value;
+
+            throw new MegaModelError(
+              `Invalid ${key.column} cursor value in ${this.model.name} model: ${String(value)}`
+            );
+          })
+        );
+      };
+
+      // One extra model tells whether there are more models
+      query
+        .limit(limit + 1)
+        .exec()
+        .then((models) => {
+          const more = models.length > limit;
+          const data = models.slice(0, limit);
+
+          if (backward) data.reverse();
+
+          const first = data[0];
+          const last = data[data.length - 1];
+          const page: CursorPage = { data };
+
+          if (backward) {
+            if (more) page.prev = cursor(first);
+            if (isDefined(last)) page.next = cursor(last);
+          } else {
+            if (more) page.next = cursor(last);
+            if (isDefined(after) && isDefined(first)) page.prev = cursor(first);
+          }
+
+          resolve(page);
+        })
+        .catch(reject);
+    });
+  }
 
   /**
-   * Tells whether to enable or disable timestamps handling.
-   * @returns `True` if timestamps are enabled, otherwise `false`.
-   * @note Default return value is `true` if `this.timestamps` is invalid.
+   * Prepares the query to be executed in batches ordered by the primary key.
+   *
+   * @param size The number of models per batch.
+   * @returns A function that resolves with the next batch, or an empty array once all batches are fetched.
+   *
+   * @notes
+   * - Each batch executes a copy of the query, with a `pk > ?` constraint after the first batch.
+   * - The ordering, limit and offset of the query are replaced, and the query itself is left untouched.
+   * - Models with a composite primary key can't be batched.
    */
-  public static timestamps() {
-    return isBool(this.context.timestamps) ? this.context.timestamps : true;
+  private batches(size: number): () => Promise<Array<MegaModel>> {
+    let last: string | number;
+    let done = false;
+
+    return () =>
+      new Promise((resolve, reject) => {
+        let pk: string;
+
+        try {
+          pk = this.model.get.pk();
+        } catch (error) {
+          return reject(error);
+        }
+
+        const column = `${this.model.get.table()}.${pk}`;
+
+        if (!isInt(size) || size < 1) {
+          return reject(
+            new MegaModelError(`Invalid chunk size: ${String(size)}`)
+          );
+        }
+
+        // The primary key ordering and limit would only apply to the last UNION query
+        if (this.parts.some((part) => part.clause === 'union')) {
+          return reject(
+            new MegaModelError(
+              `Cannot chunk a query with UNION clauses in ${this.model.name} model`
+            )
+          );
+        }
+
+        if (done) return resolve([]);
+
+        const query = this.copy([
+          'from',
+          'col',
+          'distinct',
+          'join',
+          'group',
+          'having',
+        ]);
+
+        if (isDefined(last)) {
+          query.constrain((selector) =>
+            selector.where((col) => col(column).greaterThan(last))
+          );
+        }
+
+        query
+          .orderBy(column)
+          .limit(size)
+          .exec()
+          .then((models) => {
+            if (models.length < size) done = true;
+            if (models.length === 0) return resolve(models);
+
+            const model = models[models.length - 1];
+            last = serialize(this.model, { [pk]: model[pk] })[pk];
+
+            resolve(models);
+          })
+          .catch(reject);
+      });
   }
 
   /**
-   * Retrieves the name of the 'createdAt' column.
-   * @returns  The name of the 'createdAt' column.
-   * @note Default return value is `'created_at'` if `this.createdAt` is invalid.
+   * Executes the query in batches ordered by the primary key, and passes each batch to the callback.
+   *
+   * @param size The number of models per batch.
+   * @param callback The function to call with each batch, it can return a promise.
+   * @returns A promise that resolves once all batches are processed.
+   * @throws `MegaModelError` if the size or the callback is invalid.
+   *
+   * @notes
+   * - Only one batch is held in memory at a time, so you can walk whole tables.
+   * - Returning `false` from the callback stops the iteration.
+   * - Each batch executes a copy of the query, so the query itself can still be executed afterwards.
    */
-  public static createdAt() {
-    return isFullStr(this.context.createdAt)
-      ? this.context.createdAt
-      : 'created_at';
+  public chunk(
+    size: number,
+    callback: Handler<Array<MegaModel>>
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!isFunc(callback)) {
+        return reject(
+          new MegaModelError(`Invalid chunk callback: ${String(callback)}`)
+        );
+      }
+
+      const next = this.batches(size);
+      const loop = (): Promise<void> =>
+        next().then((models) => {
+          if (models.length === 0) return;
+
+          return Promise.resolve(callback(models)).then((result) => {
+            if (result !== false) return loop();
+          });
+        });
+
+      loop().then(resolve).catch(reject);
+    });
   }
 
   /**
-   * Retrieves the name of the 'updatedAt' column.
-   * @returns  The name of the 'updatedAt' column.
-   * @note Default return value is `'updated_at'` if `this.updatedAt` is invalid.
+   * Executes the query in batches ordered by the primary key, and passes each model to the callback.
+   *
+   * @param callback The function to call with each model, it can return a promise.
+   * @param size The number of models per batch (default is 100).
+   * @returns A promise that resolves once all models are processed.
+   * @throws `MegaModelError` if the callback or the size is invalid.
+   * @note Models are processed one after another, and returning `false` from the callback stops the iteration.
    */
-  public static updatedAt() {
-    return isFullStr(this.context.updatedAt)
-      ? this.context.updatedAt
-      : 'updated_at';
+  public each(callback: Handler<MegaModel>, size: number = 100): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!isFunc(callback)) {
+        return reject(
+          new MegaModelError(`Invalid each callback: ${String(callback)}`)
+        );
+      }
+
+      let stopped = false;
+
+      this.chunk(size, (models) =>
+        models
+          .reduce(
+            (promise, model) =>
+              promise.then(() => {
+                if (stopped) return;
+                return Promise.resolve(callback(model)).then((result) => {
+                  if (result === false) stopped = true;
+                });
+              }),
+            Promise.resolve()
+          )
+          .then(() => !stopped)
+      )
+        .then(resolve)
+        .catch(reject);
+    });
   }
 
   /**
-   * Retrieves the name of the associated table.
-   * @returns  The table name.
-   * @throws `MegaModelError` if the table name is invalid.
+   * Creates an async iterator over the query models, fetched in batches ordered by the primary key.
+   *
+   * @param size The number of models per batch (default is 100).
+   * @returns An async iterator to use with `for await (const model of ...)`.
+   * @note The iterator rejects with `MegaModelError` if the size is invalid.
    */
-  public static table() {
-    if (!isFullStr(this.context.table)) {
-      throw new MegaModelError(
-        `Invalid table name in ${this.context.name} model: ${String(
-          this.context.table
-        )}`
-      );
-    }
-    return this.context.table;
+  public cursor(size: number = 100): AsyncIterableIterator<MegaModel> {
+    const next = this.batches(size);
+    let buffer: Array<MegaModel> = [];
+
+    const iterator: AsyncIterableIterator<MegaModel> = {
+      [Symbol.asyncIterator]: () => iterator,
+      next: () =>
+        new Promise((resolve, reject) => {
+          if (buffer.length > 0) {
+            return resolve({ value: buffer.shift(), done: false });
+          }
+
+          next()
+            .then((models) => {
+              if (models.length === 0) {
+                return resolve({ value: undefined, done: true });
+              }
+
+              buffer = models;
+              resolve({ value: buffer.shift(), done: false });
+            })
+            .catch(reject);
+        }),
+    };
+
+    return iterator;
   }
+}
 
+/**
+ * The `Upsert` class builds an `INSERT` query that updates the existing rows on conflict.
+ *
+ * - MySQL: `ON DUPLICATE KEY UPDATE col = VALUES(col)`
+ * - PostgreSQL & SQLite: `ON CONFLICT (cols) DO UPDATE SET col = EXCLUDED.col`
+ *
+ * @extends Insert
+ */
+class Upsert extends Insert {
   /**
-   * Retrieves an array of column names.
-   * @returns An array of fully qualified column names.
-   * @note Defaults to `table.*` if no columns are specified.
+   * The unique columns that identify an existing row
    */
-  public static columns() {
-    const table = this.table();
+  private conflicts: Array<string>;
 
-    if (isArrOfStr(this.context.columns)) {
-      return this.context.columns.map((col) => `${table}.${col}`);
-    }
+  /**
+   * The columns to update when the row exists
+   */
+  private updates: Array<string>;
+
+  /**
+   * The version column to increment when the row exists, for optimistic locking
+   */
+  private version?: string;
+
+  /**
+   * The columns to return after the upsert (PostgreSQL only)
+   */
+  private returns: Array<string>;
 
-    return [`${table}.*`];
+  /**
+   * Creates an instance of the `Upsert` class.
+   * @param connection The database connection to use.
+   * @param conflict The unique columns that identify an existing row.
+   * @param update The columns to update when the row exists.
+   * @param version The version column to increment by `1` when the row exists, if optimistic locking is enabled.
+   */
+  constructor(
+    connection: MegaPoolConnection,
+    conflict: Array<string>,
+    update: Array<string>,
+    version?: string
+  ) {
+    super(connection);
+    this.conflicts = conflict;
+    this.updates = update;
+    this.version = version;
+    this.returns = [];
   }
 
   /**
-   * Retrieves an array of column names to be ignored in update.
-   * @returns An array of ignored column names.
-   * @note Default return value is `[]` if `this.ignore` is invalid.
+   * Defines the columns to return after the upsert, specific to PostgreSQL driver behavior.
+   * @param columns The column names to return.
+   * @returns The `Upsert` query instance (`this`) to allow method chaining.
    */
-  public static ignore() {
-    return isArrOfStr(this.context.ignore) ? this.context.ignore : [];
+  public returning(...columns: Array<string>): this {
+    this.returns = columns;
+    return this;
   }
 
   /**
-   * Retrieves the builder instance used for constructing queries.
-   * @returns The `MegaBuilder` instance.
-   * @throws `MegaModelError` if the builder is invalid.
+   * Builds the final SQL `INSERT` query string, including the conflict clause.
+   * @returns The constructed SQL query string.
    */
-  public static builder(): MegaBuilder {
-    if (!isChildOf(this.context.builder, MegaBuilder)) {
-      throw new MegaModelError(
-        `Invalid builder in ${this.context.name} model: ${String(
-          this.context.builder
-        )}`
-      );
-    }
+  public build(): string {
+    const driver = this.connection.driver;
+    const version = this.version;
+    const statement = super.build().replace(/;$/, '');
+
+    // Updating a conflict column with its own value keeps the row as is
+    const columns =
+      this.updates.length > 0 || isDefined(version)
+        ? this.updates
+        : [this.conflicts[0]];
+
+    const sets = columns.map((column) =>
+      isMySQL(driver)
+        ? `${column} = VALUES(${column})`
+        : `${column} = EXCLUDED.${column}`
+    );
+
+    if (isDefined(version)) sets.push(`${version} = ${version} + 1`);
+
+    const clause = isMySQL(driver)
+      ? ` ON DUPLICATE KEY UPDATE ${sets.join(', ')}`
+      : ` ON CONFLICT (${this.conflicts.join(', ')}) DO UPDATE SET ${sets.join(', ')}`;
+
+    const returning =
+      this.returns.length > 0 ? ` RETURNING ${this.returns.join(', ')}` : '';
+
+    return `${statement}${clause}${returning};`;
+  }
+}
+
+/**
+ * The `Modify` class builds an `UPDATE` query that increments the version column, and returns columns in PostgreSQL.
+ *
+ * @extends Update
+ */
+class Modify extends Update {
+  /**
+   * The version column to increment as well, for optimistic locking
+   */
+  private version?: string;
 
-    return this.context.builder;
-  }
+  /**
+   * The columns to return after the update (PostgreSQL only)
+   */
+  private returns: Array<string>;
 
   /**
-   * Retrieves the primary key column name.
-   * @returns The primary key column name.
-   * @note Default return value is `'id'` if `this.primaryKey` is invalid.
+   * Creates an instance of the `Modify` class.
+   * @param connection The database connection to use.
+   * @param version The version column to increment by `1`, if optimistic locking is enabled.
    */
-  public static pk() {
-    return isFullStr(this.context.primaryKey) ? this.context.primaryKey : 'id';
+  constructor(connection: MegaPoolConnection, version?: string) {
+    super(connection);
+    this.version = version;
+    this.returns = [];
   }
 
   /**
-   * Retrieves the foreign key column name.
-   * @returns The foreign key column name.
-   * @note Default value is the singular form of the table name with `this.primaryKey` appended (e.g., `user_id`, `product_id`) if `this.foreignKey` is invalid.
+   * Defines the columns to return after the update, specific to PostgreSQL driver behavior.
+   * @param columns The column names or expressions to return (e.g., `1 AS affected`).
+   * @returns The `Modify` query instance (`this`) to allow method chaining.
    */
-  public static fk() {
-    return isFullStr(this.context.foreignKey)
-      ? this.context.foreignKey
-      : `${this.context.name.toLocaleLowerCase()}_${this.pk()}`;
+  public returning(...columns: Array<string>): this {
+    this.returns = columns;
+    return this;
   }
 
   /**
-   * Retrieves the name of the link table (`pivot`).
-   * @param model The model class to link to.
-   * @returns The name of the link table, typically in the format `'modelname_modelname'`.
-   * @throws `MegaModelError` if the provided `model` is not a subclass of `MegaModel`.
-   * @note The link table name is generated by combining both model names in alphabetical order, separated by an underscore (e.g., 'category_product').
+   * Builds the final SQL `UPDATE` query string, including the version increment and the returned columns.
+   * @returns The constructed SQL `UPDATE` query string.
    */
-  public static link(model: typeof MegaModel) {
-    if (!isSubclass(model, MegaModel)) {
-      throw new MegaModelError(`Invalid link model in ${this.context.name}`);
+  public build(): string {
+    const version = this.version;
+    let statement = super.build().replace(/;$/, '');
+
+    // The SET clause only holds placeholders, so the first WHERE ends it
+    if (isDefined(version)) {
+      const bump = `, ${version} = ${version} + 1`;
+      const index = statement.indexOf(' WHERE ');
+
+      statement =
+        index === -1
+          ? `${statement}${bump}`
+          : `${statement.slice(0, index)}${bump}${statement.slice(index)}`;
     }
-    return [model.name, this.context.name].sort().join('_').toLowerCase();
+
+    const returning =
+      this.returns.length > 0 ? ` RETURNING ${this.returns.join(', ')}` : '';
+
+    return `${statement}${returning};`;
   }
+}
 
+/**
+ * The `Remove` class builds a `DELETE` query that returns columns in PostgreSQL.
+ *
+ * @extends Delete
+ */
+class Remove extends Delete {
   /**
-   * Retrieves the event emitter instance used to trigger events.
-   * @returns The `EventEmitter` instance.
-   * @note If `this.emitter` is not already set, it will be initialized as a new `EventEmitter`.
+   * The columns to return after the delete (PostgreSQL only)
    */
-  public static emitter() {
-    if (!isChildOf(this.context.emitter, EventEmitter)) {
-      this.context.emitter = new EventEmitter();
-    }
-    return this.context.emitter;
-  }
+  private returns: Array<string>;
 
   /**
-   * Retrieves modifiers registered for a specific column.
-   * @param column The column name to get modifiers for.
-   * @returns An array of modifiers registered for the column, or an empty array.
-   * @note Returns an empty array if no modifiers registered, or incorrect structure.
+   * Creates an instance of the `Remove` class.
+   * @param connection The database connection to use.
    */
-  public static modifiers(column: string) {
-    // Check if the column name is valid
-    if (!isFullStr(column)) return [];
+  constructor(connection: MegaPoolConnection) {
+    super(connection);
+    this.returns = [];
+  }
 
-    // Check if the modifiers object exists
-    if (!isObj(this.context.modifiers)) return [];
+  /**
+   * Defines the columns to return after the delete, specific to PostgreSQL driver behavior.
+   * @param columns The column names or expressions to return (e.g., `1 AS affected`).
+   * @returns The `Remove` query instance (`this`) to allow method chaining.
+   */
+  public returning(...columns: Array<string>): this {
+    this.returns = columns;
+    return this;
+  }
 
-    // Check if the modifiers for the specific column exist and are valid functions
-    if (!isArrOfFunc(this.context.modifiers[column])) return [];
+  /**
+   * Builds the final SQL `DELETE` query string, including the returned columns.
+   * @returns The constructed SQL `DELETE` query string.
+   */
+  public build(): string {
+    const statement = super.build().replace(/;$/, '');
+    const returning =
+      this.returns.length > 0 ? ` RETURNING ${this.returns.join(', ')}` : '';
 
-    // Return the array of modifiers for the column
-    return this.context.modifiers[column];
+    return `${statement}${returning};`;
   }
 }
 
 /**
- * The `Selector` class extends the `Select` class and provides methods to build and execute select queries.
- * The difference with the base `Select` class is that the `exec` method resolves with an array of `MegaModel` instances instead of plain objects.
+ * The `Increment` class builds an `UPDATE` query that sets a column relative to its current value (e.g., `views = views + ?`).
  *
- * @extends Select
+ * @extends Modify
  */
-class Selector extends Select {
+class Increment extends Modify {
   /**
-   * The `MegaModel` sub-class (e.g, `User`, `Product`)
+   * The column to increment or decrement
    */
-  private model: typeof MegaModel;
+  private column: string;
 
   /**
-   * Creates an instance of the `Selector` class.
-   * @param connection The database connection to use.
-   * @param model The model class associated with the query.
+   * The operator to use (`+` or `-`)
    */
-  constructor(connection: MegaPoolConnection, model: typeof MegaModel) {
-    super(connection);
-
-    // Set model
-    this.model = model;
-  }
+  private operator: '+' | '-';
 
   /**
-   * Executes the query and resolves with an array of model instances.
-   * @returns A promise that resolves with an array of `MegaModel` instances.
+   * Creates an instance of the `Increment` class.
+   * @param connection The database connection to use.
+   * @param column The column to increment or decrement.
+   * @param operator The operator to use (`+` or `-`).
+   * @param version The version column to increment by `1`, if optimistic locking is enabled.
+   * @note The column must be the first column passed to `set()`, with the amount as its value.
    */
-  // @ts-ignore: Thanks for your help
-  public exec(): Promise<Array<MegaModel>> {
-    return new Promise((resolve, reject) => {
-      super
-        .exec()
-        .then((rows) => {
-          resolve(rows.map((row) => new this.model(modify(this.model, row))));
-        })
-        .catch(reject);
-    });
+  constructor(
+    connection: MegaPoolConnection,
+    column: string,
+    operator: '+' | '-',
+    version?: string
+  ) {
+    super(connection, version);
+    this.column = column;
+    this.operator = operator;
   }
 
   /**
-   * Alias for `exec` that returns the same result but provides a more readable API.
-   * @returns A promise that resolves with an array of MegaModel instances.
+   * Builds the final SQL `UPDATE` query string, setting the column relative to its current value.
+   * @returns The constructed SQL `UPDATE` query string.
    */
-  public all(): Promise<Array<MegaModel>> {
-    return this.exec(); // Calls the private exec() method
+  public build(): string {
+    const column = this.column;
+    const expression = `${column} = ${column} ${this.operator} ?`;
+
+    return super.build().replace(`SET ${column} = ?`, `SET ${expression}`);
   }
 }
 
@@ -398,6 +4048,42 @@ export const UPDATE = Symbol('UPDATE');
  */
 export const UPDATED = Symbol('UPDATED');
 
+/**
+ * Event emitted before multiple rows are updated.
+ *
+ * @event UPDATE_MANY
+ * @param rows The data that will be updated, one row per model.
+ * @note Emitted by the `updateMany()` static method.
+ */
+export const UPDATE_MANY = Symbol('UPDATE_MANY');
+
+/**
+ * Event emitted after multiple rows are updated.
+ *
+ * @event UPDATED_MANY
+ * @param models The models (or rows) that were updated.
+ * @note Emitted by the `updateMany()` static method.
+ */
+export const UPDATED_MANY = Symbol('UPDATED_MANY');
+
+/**
+ * Event emitted before rows are inserted or updated on conflict.
+ *
+ * @event UPSERT
+ * @param rows The rows data to be upserted.
+ * @note Emitted by the `upsert()` static method.
+ */
+export const UPSERT = Symbol('UPSERT');
+
+/**
+ * Event emitted after rows are inserted or updated on conflict.
+ *
+ * @event UPSERTED
+ * @param models The resulting models from the upsert operation.
+ * @note Emitted by the `upsert()` static method.
+ */
+export const UPSERTED = Symbol('UPSERTED');
+
 /**
  * Event emitted before a model is deleted.
  *
@@ -416,6 +4102,24 @@ export const DELETE = Symbol('DELETE');
  */
 export const DELETED = Symbol('DELETED');
 
+/**
+ * Event emitted before a soft deleted model is restored.
+ *
+ * @event RESTORE
+ * @param model The model that will be restored.
+ * @note Emitted by the `restore()` method.
+ */
+export const RESTORE = Symbol('RESTORE');
+
+/**
+ * Event emitted after a soft deleted model is restored.
+ *
+ * @event RESTORED
+ * @param model The model that was restored.
+ * @note Emitted by the `restore()` method.
+ */
+export const RESTORED = Symbol('RESTORED');
+
 /**
  * Event emitted before a model is linked to another model.
  *
@@ -506,6 +4210,137 @@ export const UNLINKED_MANY = Symbol('UNLINKED_MANY');
  */
 export class MegaModelError extends Error {}
 
+/**
+ * Custom error class for MegaModel validation.
+ * This error is thrown when a row does not pass the rules registered in the model
+ */
+export class MegaModelValidationError extends MegaModelError {
+  /**
+   * The error messages of each invalid column (e.g., `{ email: ['email is required'] }`).
+   */
+  public errors: Errors;
+
+  /**
+   * Creates an instance of the `MegaModelValidationError` class.
+   * @param errors The error messages of each invalid column.
+   */
+  constructor(errors: Errors) {
+    super(`Invalid columns: ${Object.keys(errors).join(', ')}`);
+    this.errors = errors;
+  }
+}
+
+/**
+ * Custom error class for MegaModel optimistic locking.
+ * This error is thrown when a record was changed or deleted since the model instance was selected
+ */
+export class MegaModelConflictError extends MegaModelError {}
+
+/**
+ * Represents a database transaction started using `MegaModel.transaction()`.
+ *
+ * All model operations executed inside the transaction callback use the transaction connection,
+ * nested transactions use savepoints on the same connection.
+ */
+export class Transaction {
+  /**
+   * The connection used by all model operations inside the transaction.
+   */
+  public readonly connection: MegaPoolConnection;
+
+  /**
+   * The builder bound to the transaction connection.
+   */
+  public readonly builder: MegaBuilder;
+
+  /**
+   * The parent transaction (for nested transactions).
+   */
+  public readonly parent?: Transaction;
+
+  /**
+   * The savepoint name (for nested transactions).
+   */
+  public readonly savepoint?: string;
+
+  /**
+   * The number of savepoints created in the transaction (used to name them).
+   */
+  private savepoints: number;
+
+  /**
+   * Creates an instance of the `Transaction` class.
+   * @param connection The connection to run the transaction on.
+   * @param parent The parent transaction (for nested transactions).
+   */
+  constructor(connection: MegaPoolConnection, parent?: Transaction) {
+    this.connection = connection;
+    this.builder = new MegaBuilder(connection);
+    this.savepoints = 0;
+
+    if (isDefined(parent)) {
+      let root = parent;
+      while (isDefined(root.parent)) root = root.parent;
+
+      this.parent = parent;
+      this.savepoint = `savepoint_${++root.savepoints}`;
+    }
+  }
+
+  /**
+   * Starts the transaction, or creates the savepoint for nested transactions.
+   * @returns A promise that resolves when the transaction is started.
+   */
+  private begin(): Promise<void> {
+    if (!isDefined(this.savepoint)) return this.connection.beginTransaction();
+    return this.connection.query(`SAVEPOINT ${this.savepoint};`).then(() => {});
+  }
+
+  /**
+   * Commits the transaction, or releases the savepoint for nested transactions.
+   * @returns A promise that resolves when the transaction is committed.
+   */
+  private commit(): Promise<void> {
+    if (!isDefined(this.savepoint)) return this.connection.commit();
+    return this.connection
+      .query(`RELEASE SAVEPOINT ${this.savepoint};`)
+      .then(() => {});
+  }
+
+  /**
+   * Rolls back the transaction, or rolls back to the savepoint for nested transactions.
+   * @returns A promise that resolves when the transaction is rolled back.
+   */
+  private rollback(): Promise<void> {
+    if (!isDefined(this.savepoint)) return this.connection.rollback();
+    return this.connection
+      .query(`ROLLBACK TO SAVEPOINT ${this.savepoint};`)
+      .then(() => {});
+  }
+
+  /**
+   * Runs a callback inside the transaction.
+   *
+   * @param callback The callback to run, receives the transaction.
+   * @returns A promise that resolves with the callback result after the transaction is committed,
+   * or rejects with the callback error after the transaction is rolled back.
+   */
+  public run<T>(callback: (tx: Transaction) => Promise<T> | T): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.begin()
+        .then(() =>
+          storage
+            .run(this, () => Promise.resolve().then(() => callback(this)))
+            .then(
+              (result) => this.commit().then(() => resolve(result)),
+              (error) => this.rollback().then(() => reject(error))
+            )
+        )
+        .catch(reject);
+    });
+  }
+}
+
 /**
  * `MegaModel` is a base class used to interact with the database and perform CRUD operations
  * offering a powerful, high-level API for interacting with databases.
@@ -534,6 +4369,24 @@ export class MegaModel {
    */
   protected static timestamps: boolean;
 
+  /**
+   * The column name used for the `deletedAt` timestamp.
+   * @protected
+   */
+  protected static deletedAt: string;
+
+  /**
+   * Indicates whether soft deletes are enabled (`delete()` sets `deletedAt` instead of removing the row).
+   * @protected
+   */
+  protected static softDeletes: boolean;
+
+  /**
+   * The column used for optimistic locking (e.g., `version`), it's incremented on each `update()`.
+   * @protected
+   */
+  protected static versionColumn: string;
+
   /**
    * The name of the table associated with this model.
    * @protected
@@ -541,16 +4394,22 @@ export class MegaModel {
   protected static table: string;
 
   /**
-   * The name of the primary key column.
+   * The name of the primary key column, or an array of columns for composite keys.
+   * @protected
+   */
+  protected static primaryKey: string | Array<string>;
+
+  /**
+   * The name of the foreign key column, or an array of columns for composite keys.
    * @protected
    */
-  protected static primaryKey: string;
+  protected static foreignKey: string | Array<string>;
 
   /**
-   * The name of the foreign key column.
+   * How to generate the primary key of inserted rows: `uuid`, `ulid` or a custom function.
    * @protected
    */
-  protected static foreignKey: string;
+  protected static keyType: KeyType;
 
   /**
    * The list of column names to select for this model.
@@ -564,12 +4423,66 @@ export class MegaModel {
    */
   protected static ignore: string[];
 
+  /**
+   * The list of columns to exclude from `toJSON()` (e.g., `password`).
+   * @protected
+   */
+  protected static hidden: string[];
+
+  /**
+   * The list of columns to include in `toJSON()`, all the others are excluded.
+   * @protected
+   */
+  protected static visible: string[];
+
   /**
    * A list of modifiers registered for the model's columns.
    * @protected
    */
   protected static modifiers: Modifiers;
 
+  /**
+   * A list of mutators registered for the model's columns, applied before values are written.
+   * @protected
+   */
+  protected static mutators: Modifiers;
+
+  /**
+   * A list of casts registered for the model's columns, applied on hydration and reversed on writes.
+   * @protected
+   */
+  protected static casts: Casts;
+
+  /**
+   * A list of validation rules for the model's columns, checked before insert and update.
+   * @protected
+   */
+  protected static rules: Rules;
+
+  /**
+   * A list of relations that can be eager loaded using `with()`.
+   * @protected
+   */
+  protected static relations: Relations;
+
+  /**
+   * Default column values for new models, a value or a function that returns it (e.g., `tags: () => []`).
+   * @protected
+   */
+  protected static defaults: Defaults;
+
+  /**
+   * Named conditions that can be added to queries using `scope()` (e.g., `User.scope('active')`).
+   * @protected
+   */
+  protected static scopes: Scopes;
+
+  /**
+   * Named conditions added to all the model queries, unless removed using `withoutGlobalScope()`.
+   * @protected
+   */
+  protected static globalScopes: Scopes;
+
   /**
    * The event emitter instance used for handling model-related events.
    * @private
@@ -580,42 +4493,141 @@ export class MegaModel {
    * The builder instance associated with the model (required).
    * @public
    */
-  public static builder: MegaBuilder;
+  public static builder: MegaBuilder;
+
+  /**
+   * The pool used to acquire a dedicated connection for each transaction (required for transactions).
+   * @public
+   */
+  public static pool: MegaPool;
+
+  /**
+   * Constructs a new `MegaModel` instance.
+   *
+   * @param row An optional object to initialize the model's properties.
+   * @note The registered `defaults` are assigned to the missing columns, except for models hydrated from the database.
+   */
+  constructor(row?: Row) {
+    if (isObj(row)) {
+      Object.keys(row).forEach((column) => {
+        this[column] = row[column];
+      });
+    }
+
+    // Each row is consumed by the instance it was hydrated for
+    if (!(isObj(row) && hydrated.delete(row))) {
+      fill(this.constructor as typeof MegaModel, this);
+    }
+
+    snapshot(this);
+  }
+
+  /**
+   * Getter methods to retrieve the configuration of your `MegaModel` sub-class.
+   *
+   * These getters are used to access static properties such as table name, primary key, timestamps,
+   * and more. They ensure you can retrieve the correct values for your model's configuration at runtime.
+   *
+   * @notes
+   * - Each model has its own `Getter` instance that caches the configuration,
+   *   use `get.invalidate()` after mutating the static configuration in place.
+   * - Overriding a getter method (e.g., `User.get.emitter`) only affects that model.
+   */
+  public static get get(): Getter {
+    if (!registry.has(this)) registry.set(this, new Getter(this));
+    return registry.get(this);
+  }
+
+  /**
+   * Provides methods to perform `SELECT`, `UPDATE`, or `DELETE` operations based on a specified condition.
+   *
+   * @param condition A function that defines the condition for the `WHERE` clause.
+   * @returns A `Where` instance with methods to execute the corresponding SQL operation (`select`, `update`, or `delete`).
+   * @note Each call returns a new instance, you can add more conditions using `andWhere()` and `orWhere()`.
+   */
+  public static where(condition: (col: Col, con: Con) => void): Where {
+    return new Where(this, condition);
+  }
 
   /**
-   * Constructs a new `MegaModel` instance.
+   * Queries the model with the given local scopes, registered in the model's `scopes`.
    *
-   * @param row An optional object to initialize the model's properties.
+   * @param names The scope names (e.g., `active`, `published`).
+   * @returns A `Scoped` instance with `select()`, `find()`, `findMany()` and `where()` methods.
+   * @throws `MegaModelError` if a scope is not registered.
+   * @note The scopes are combined with the conditions using `AND`, like `constrain()`.
    */
-  constructor(row?: Row) {
-    if (isObj(row)) {
-      Object.keys(row).forEach((column) => {
-        this[column] = row[column];
-      });
-    }
+  public static scope(...names: Array<string>): Scoped {
+    return new Scoped(this).scope(...names);
   }
 
   /**
-   * Getter methods to retrieve the configuration of your `MegaModel` sub-class.
+   * Queries the model without the given global scopes, registered in the model's `globalScopes`.
    *
-   * These getters are used to access static properties such as table name, primary key, timestamps,
-   * and more. They ensure you can retrieve the correct values for your model's configuration at runtime.
+   * @param names The global scope names (e.g., `tenant`).
+   * @returns A `Scoped` instance with `select()`, `find()`, `findMany()` and `where()` methods.
    */
-  public static get get() {
-    (Getter as any).context = this;
-    return Getter;
+  public static withoutGlobalScope(...names: Array<string>): Scoped {
+    return new Scoped(this).withoutGlobalScope(...names);
   }
 
   /**
-   * Provides methods to perform `SELECT`, `UPDATE`, or `DELETE` operations based on a specified condition.
+   * Runs a callback inside a database transaction.
    *
-   * @param condition A function that defines the condition for the `WHERE` clause.
-   * @returns A class with methods to execute the corresponding SQL operation (`select`, `update`, or `delete`).
+   * @param callback The callback to run, receives the `Transaction` instance.
+   * @returns A promise that resolves with the callback result after the transaction is committed.
+   * @throws `MegaModelError` if the callback or the model `pool` is invalid, or the callback error after the transaction is rolled back.
+   *
+   * @notes
+   * - The transaction runs on a dedicated connection requested from the model `pool`, and released once the transaction ends,
+   *   so queries running outside the callback meanwhile are never part of the transaction.
+   * - All model operations inside the callback (including relationships and `where()`) use the transaction connection.
+   * - The transaction is committed when the callback resolves, and rolled back when it rejects.
+   * - Nested transactions use savepoints on the same connection: rejecting a nested callback only rolls back its own operations.
    */
-  public static where(condition: (col: Col, con: Con) => void): typeof Where {
-    (Where as any).condition = condition;
-    (Where as any).context = this;
-    return Where;
+  public static transaction<T>(
+    callback: (tx: Transaction) => Promise<T> | T
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (!isFunc(callback)) {
+        return reject(
+          new MegaModelError(`Invalid transaction callback: ${String(callback)}`)
+        );
+      }
+
+      const parent = storage.getStore();
+
+      if (isDefined(parent)) {
+        return new Transaction(parent.connection, parent)
+          .run(callback)
+          .then(resolve)
+          .catch(reject);
+      }
+
+      let pool: MegaPool;
+
+      try {
+        pool = this.get.pool();
+      } catch (error) {
+        return reject(error);
+      }
+
+      pool
+        .request()
+        .then((connection) =>
+          new Transaction(connection).run(callback).then(
+            (result) => {
+              connection.release();
+              resolve(result);
+            },
+            (error) => {
+              connection.release();
+              reject(error);
+            }
+          )
+        )
+        .catch(reject);
+    });
   }
 
   /**
@@ -623,25 +4635,18 @@ export class MegaModel {
    *
    * This method queries the database to find a single record that matches the provided primary key.
    *
-   * @param key The primary key of the model to search for. This can be either a string or a number.
+   * @param key The primary key of the model to search for. This can be either a string or a number, or a tuple for composite keys.
    * @returns Promise resolves to the model instance, or `undefined` if no record matches the primary key.
    *
    * @notes
    * - The primary key do not have to be a `number` they can be any value that uniquely identifies a record.
    *   This includes `emails`, `UUIDs`, or any other custom unique identifiers.
+   * - For composite keys: The tuple values follow the order of `primaryKey` (e.g., `find([tenantId, id])`).
    */
-  public static find(key: number | string): Promise<MegaModel | void> {
-    return new Promise((resolve, reject) => {
-      if (!(isNum(key) || isStr(key))) {
-        return reject(new MegaModelError(`Invalid key: ${String(key)}`));
-      }
-
-      this.select()
-        .where((col) => col(this.get.pk()).equal(key))
-        .exec()
-        .then((models) => resolve(models[0]))
-        .catch(reject);
-    });
+  public static find(
+    key: number | string | Array<number | string>
+  ): Promise<MegaModel | void> {
+    return new Scoped(this).find(key);
   }
 
   /**
@@ -649,25 +4654,43 @@ export class MegaModel {
    *
    * This method queries the database to find multiple records that match the provided primary keys.
    *
-   * @param keys An array of primary keys to search for. Each key can be either a string or a number.
+   * @param keys An array of primary keys to search for. Each key can be either a string or a number, or a tuple for composite keys.
    * @returns Promise resolves to an array of model instances. If no models are found, it resolves to an empty array.
    *
    * @notes
    * - The primary keys do not have to be `numbers` they can be any value that uniquely identifies a record.
    *   This includes `emails`, `UUIDs`, or any other custom unique identifiers.
+   * - For composite keys: Each tuple follows the order of `primaryKey` (e.g., `findMany([[1, 5], [1, 6]])`).
    */
   public static findMany(
-    keys: Array<number | string>
+    keys: Array<number | string | Array<number | string>>
   ): Promise<Array<MegaModel>> {
+    return new Scoped(this).findMany(keys);
+  }
+
+  /**
+   * Finds a model instance by its primary key, and locks its row until the current transaction ends.
+   *
+   * @param key The primary key of the model to search for, or a tuple for composite keys.
+   * @returns Promise resolves to the model instance, or `undefined` if no record matches the primary key.
+   * @throws `MegaModelError` if the key is invalid, or the method is called outside a transaction.
+   * @note This is a shortcut for `select().where(...).lockForUpdate()`, so it must run inside `transaction()`.
+   */
+  public static findForUpdate(
+    key: number | string | Array<number | string>
+  ): Promise<MegaModel | void> {
     return new Promise((resolve, reject) => {
-      if (!isFullArr(keys)) {
-        return reject(new MegaModelError(`Invalid keys: ${String(keys)}`));
+      const values = tuple(this, key);
+
+      if (!isDefined(values)) {
+        return reject(new MegaModelError(`Invalid key: ${String(key)}`));
       }
 
       this.select()
-        .where((col) => col(this.get.pk()).in(...keys))
+        .where((col, con) => match(col, con, this.get.keys(), values))
+        .lockForUpdate()
         .exec()
-        .then(resolve)
+        .then((models) => resolve(models[0]))
         .catch(reject);
     });
   }
@@ -678,11 +4701,18 @@ export class MegaModel {
    * @param row An object where the keys are column names and the values to insert into the table.
    * @returns Promise that resolves to the newly created model instance.
    * @throws `MegaModelError` if the provided row is invalid.
+   * @throws `MegaModelValidationError` if the row does not pass the model `rules`.
    *
    * @notes
    * - If timestamps handling is enabled, the `created_at` and `updated_at` columns will be automatically populated with the current date and time.
+   * - The row values are passed through the registered `mutators` before they are validated and inserted.
+   * - The row values are serialized using the registered `casts`, and the resolved instance holds the casted values.
    * - The method will emit `INSERT` event before the row is inserted and `INSERTED` event after the row is successfully inserted.
    * - The inserted row's primary key is automatically assigned and returned as part of the model instance.
+   * - If `keyType` is set, the primary key is generated before the row is mutated, validated and inserted (unless the row has one).
+   * - If `versionColumn` is set, the version starts at `1` (unless the row has one).
+   * - The registered `defaults` are assigned to the missing columns before the row is mutated, validated and inserted.
+   * - For composite keys: The key columns must be part of the row, so nothing is assigned.
    */
   public static insert(row: Row): Promise<MegaModel> {
     return new Promise((resolve, reject) => {
@@ -690,33 +4720,54 @@ export class MegaModel {
         return reject(new MegaModelError(`Invalid row: ${String(row)}`));
       }
 
-      if (this.get.timestamps()) {
-        row[this.get.createdAt()] = UTC.get.datetime();
-        row[this.get.updatedAt()] = UTC.get.datetime();
-      }
+      const pk = this.get.keys()[0];
+      const generate = this.get.generator();
+      const assigned = this.get.keys().length > 1 || isDefined(generate);
+      let data: Row;
 
-      this.get.emitter().emit(INSERT, row);
+      const version = this.get.versionColumn();
 
-      const builder = this.get.builder();
-      const connection = builder.get.connection();
-      const insert = builder.insert();
-      const pk = this.get.pk();
+      if (isDefined(generate) && !isDefined(row[pk])) row[pk] = generate();
+      if (isDefined(version) && !isDefined(row[version])) row[version] = 1;
 
-      if (isPostgreSQL(connection.driver)) insert.returning(pk);
+      fill(this, row);
 
-      insert
-        .into(this.get.table())
-        .row(row)
-        .exec()
+      validate(this, mutate(this, row))
+        .then(() => {
+          if (this.get.timestamps()) {
+            row[this.get.createdAt()] = UTC.get.datetime();
+            row[this.get.updatedAt()] = UTC.get.datetime();
+          }
+
+          this.get.emitter().emit(INSERT, row);
+
+          const builder = this.get.builder();
+          const connection = builder.get.connection();
+          const insert = builder.insert();
+
+          if (isPostgreSQL(connection.driver) && !assigned) {
+            insert.returning(pk);
+          }
+
+          data = serialize(this, { ...row });
+
+          return insert.into(this.get.table()).row(data).exec();
+        })
         .then((result: string | number | Row) => {
-          const columns = Object.keys(row);
-          const values = Object.values(row);
+          if (assigned) {
+            const model = hydrate(this, data);
+            this.get.emitter().emit(INSERTED, model);
+            return resolve(model);
+          }
+
+          const columns = Object.keys(data);
+          const values = Object.values(data);
 
           columns.unshift(pk);
           values.unshift(isObj(result) ? result[pk] : result);
 
           const entries = columns.map((col, index) => [col, values[index]]);
-          const model = new this(modify(this, Object.fromEntries(entries)));
+          const model = hydrate(this, Object.fromEntries(entries));
 
           this.get.emitter().emit(INSERTED, model);
 
@@ -727,67 +4778,534 @@ export class MegaModel {
   }
 
   /**
-   * Inserts multiple rows into the model's associated table using a bulk insert statement.
+   * Inserts multiple rows into the model's associated table using a bulk insert statement.
+   *
+   * @param rows An array of objects, where each object represents a row to be inserted into the table.
+   * @returns A promise that resolves to an array of model instances.
+   * @throws `MegaModelError` if the provided rows are invalid (i.e., if the rows are not an array of objects).
+   * @throws `MegaModelValidationError` if any row does not pass the model `rules`, columns are prefixed with the row index (e.g., `0.email`).
+   *
+   * @notes
+   * - If timestamps handling is enabled, the `created_at` and `updated_at` columns will be automatically populated with the current date and time for each row.
+   * - The rows values are passed through the registered `mutators` before they are validated and inserted.
+   * - The rows values are serialized using the registered `casts`, and the resolved instances hold the casted values.
+   * - The method will emit the `INSERT_MANY` event before the rows are inserted and the `INSERTED_MANY` event after the rows are successfully inserted.
+   * - For `PostgreSQL`: The resolved model instances include their primary keys.
+   * - For `MySQL` & `SQLite`: The resolved model instances do not include primary keys, unless `keyType` is set.
+   * - If `keyType` is set, the primary key of each row is generated before the rows are mutated, validated and inserted (unless the row has one).
+   * - If `versionColumn` is set, the version of each row starts at `1` (unless the row has one).
+   * - The registered `defaults` are assigned to the missing columns of each row before the rows are mutated, validated and inserted.
+   * - For composite keys: The key columns must be part of the rows, so nothing is assigned.
+   */
+  public static insertMany(rows: Rows): Promise<Array<MegaModel>> {
+    return new Promise((resolve, reject) => {
+      if (!isArrOfObj(rows)) {
+        return reject(new MegaModelError(`Invalid rows: ${String(rows)}`));
+      }
+
+      const pk = this.get.keys()[0];
+      const generate = this.get.generator();
+      const assigned = this.get.keys().length > 1 || isDefined(generate);
+      let data: Rows;
+
+      const version = this.get.versionColumn();
+
+      rows.forEach((row) => {
+        if (isDefined(generate) && !isDefined(row[pk])) row[pk] = generate();
+        if (isDefined(version) && !isDefined(row[version])) row[version] = 1;
+        fill(this, row);
+      });
+
+      rows.forEach((row) => mutate(this, row));
+
+      validate(this, rows)
+        .then(() => {
+          const datetime = UTC.get.datetime();
+          const createdAt = this.get.createdAt();
+          const updatedAt = this.get.updatedAt();
+
+          if (this.get.timestamps()) {
+            rows.forEach((row) => {
+              row[createdAt] = datetime;
+              row[updatedAt] = datetime;
+            });
+          }
+
+          this.get.emitter().emit(INSERT_MANY, rows);
+
+          const builder = this.get.builder();
+          const connection = builder.get.connection();
+          const insert = builder.insert();
+
+          if (isPostgreSQL(connection.driver) && !assigned) {
+            insert.returning(pk);
+          }
+
+          data = rows.map((row) => serialize(this, { ...row }));
+
+          return insert.into(this.get.table()).rows(data).exec();
+        })
+        .then((result: Rows | Row | void) => {
+          if (isArr(result) && !assigned) {
+            data = data.map((row, index) => {
+              const columns = Object.keys(row);
+              const values = Object.values(row);
+
+              // add pk
+              values.unshift(result[index][pk]);
+              columns.unshift(pk);
+
+              const entries = columns.map((col, index) => [col, values[index]]);
+              return Object.fromEntries(entries);
+            });
+          }
+
+          const models = data.map((row) => hydrate(this, row));
+          this.get.emitter().emit(INSERTED_MANY, models);
+          resolve(models);
+        })
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Inserts rows into the model's associated table, or updates them if they conflict with existing rows.
+   *
+   * @param rows An array of objects, where each object represents a row to be inserted or updated.
+   * @param options The `conflict` columns that identify an existing row, and the columns to `update`.
+   * @returns A promise that resolves to an array of model instances.
+   * @throws `MegaModelError` if the provided rows or options are invalid.
+   * @throws `MegaModelValidationError` if any row does not pass the model `rules`, columns are prefixed with the row index (e.g., `0.email`).
+   *
+   * @notes
+   * - If timestamps handling is enabled, `created_at` and `updated_at` are populated for each row, and only `updated_at` is updated on conflict.
+   * - The rows values are passed through the registered `mutators`, validated and serialized just like `insertMany()`.
+   * - The rows must share the same columns, and the `update` columns default to all of them except the `conflict` and primary key columns.
+   * - The method will emit the `UPSERT` event before the rows are upserted and the `UPSERTED` event after the rows are successfully upserted.
+   * - For `MySQL`: The conflict is detected using the table unique keys, so the `conflict` columns must be unique.
+   * - For `PostgreSQL`: The resolved model instances include all their primary key columns.
+   * - For `MySQL` & `SQLite`: The resolved model instances do not include primary keys, unless `keyType` is set.
+   * - The registered `defaults` are assigned to the missing columns of each row, like `insertMany()`, so they are updated on conflict as well.
+   * - If `keyType` is set, the primary key of each row is generated before the rows are mutated, validated and upserted (unless the row has one).
+   * - The primary key is never updated on conflict, so a generated key is only stored for the inserted rows.
+   * - The resolved model instances hold the upserted values, columns that are not updated may differ in the database.
+   * - If `versionColumn` is set, the version starts at `1` for the inserted rows and is incremented by `1` on conflict, like `update()`.
+   *   It is never taken from the rows on conflict, and only PostgreSQL resolves the incremented version.
+   */
+  public static upsert(
+    rows: Rows,
+    options: UpsertOptions
+  ): Promise<Array<MegaModel>> {
+    return new Promise((resolve, reject) => {
+      if (!isArrOfObj(rows) || rows.length === 0) {
+        return reject(new MegaModelError(`Invalid rows: ${String(rows)}`));
+      }
+
+      const conflict = isObj(options) ? options.conflict : undefined;
+
+      if (!isFullArr(conflict) || !isArrOfStr(conflict)) {
+        return reject(
+          new MegaModelError(`Invalid upsert conflict: ${String(conflict)}`)
+        );
+      }
+
+      if (isDefined(options.update) && !isArrOfStr(options.update)) {
+        return reject(
+          new MegaModelError(`Invalid upsert update: ${String(options.update)}`)
+        );
+      }
+
+      const pks = this.get.keys();
+      const generate = this.get.generator();
+      const version = this.get.versionColumn();
+      const returns = isDefined(version) ? [...pks, version] : pks;
+      let data: Rows;
+
+      rows.forEach((row) => {
+        if (isDefined(generate) && !isDefined(row[pks[0]])) {
+          row[pks[0]] = generate();
+        }
+
+        if (isDefined(version) && !isDefined(row[version])) row[version] = 1;
+        fill(this, row);
+      });
+
+      // All the rows are inserted by a single statement, so they share the same columns
+      const columns = rows.reduce((columns: Array<string>, row) => {
+        Object.keys(row).forEach((column) => {
+          if (!columns.includes(column)) columns.push(column);
+        });
+
+        return columns;
+      }, []);
+
+      for (let index = 0; index < rows.length; index++) {
+        const column = columns.find((column) => !(column in rows[index]));
+
+        if (isDefined(column)) {
+          return reject(
+            new MegaModelError(`Missing upsert column: ${index}.${column}`)
+          );
+        }
+      }
+
+      rows.forEach((row) => mutate(this, row));
+
+      validate(this, rows)
+        .then(() => {
+          const datetime = UTC.get.datetime();
+          const createdAt = this.get.createdAt();
+          const updatedAt = this.get.updatedAt();
+
+          let update = isDefined(options.update)
+            ? [...options.update]
+            : columns.filter(
+                (column) => !conflict.includes(column) && !pks.includes(column)
+              );
+
+          // The version is incremented by the query itself
+          update = update.filter((column) => column !== version);
+
+          if (this.get.timestamps()) {
+            rows.forEach((row) => {
+              row[createdAt] = datetime;
+              row[updatedAt] = datetime;
+            });
+
+            update = update.filter((column) => column !== createdAt);
+            if (!update.includes(updatedAt)) update.push(updatedAt);
+          }
+
+          this.get.emitter().emit(UPSERT, rows);
+
+          const builder = this.get.builder();
+          const connection = builder.get.connection();
+          const upsert = new Upsert(connection, conflict, update, version);
+
+          if (isPostgreSQL(connection.driver)) upsert.returning(...returns);
+
+          data = rows.map((row) => serialize(this, { ...row }));
+          data.forEach((row) => upsert.row(row));
+
+          return upsert.into(this.get.table()).exec();
+        })
+        .then((result: Rows | Row | void) => {
+          const keys = isArr(result) ? result : isObj(result) ? [result] : [];
+
+          const models = data.map((row, index) => {
+            if (!isObj(keys[index])) return hydrate(this, row);
+
+            const key = returns.reduce((key, column) => {
+              key[column] = keys[index][column];
+              return key;
+            }, {});
+
+            // The returned key and version win, they differ on conflict
+            return hydrate(this, { ...key, ...filter(returns, row) });
+          });
+
+          this.get.emitter().emit(UPSERTED, models);
+          resolve(models);
+        })
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Updates multiple rows with different values using a single `UPDATE` statement.
+   *
+   * @param items The models to update, or rows that include their primary key.
+   * @returns A promise that resolves when the update is complete.
+   * @throws `MegaModelError` if the provided items are invalid or a primary key is missing.
+   * @throws `MegaModelValidationError` if any row does not pass the model `rules`, columns are prefixed with the row index (e.g., `0.email`).
+   *
+   * @notes
+   * - Each column is set using `CASE pk WHEN ? THEN ? ... ELSE column END`, which works in MySQL, PostgreSQL and SQLite.
+   * - For models: Only the changed columns are sent, and unchanged models are skipped.
+   * - For rows: All the columns are sent, except the primary key.
+   * - The `ignore` columns and the primary key are never updated.
+   * - If timestamps handling is enabled, the `updatedAt` column of each row is updated automatically.
+   * - The values are mutated, validated and serialized, and casted back on the models after the update.
+   * - The method emits the `UPDATE_MANY` event before the update and the `UPDATED_MANY` event after the update.
+   * - If nothing has changed, the update is skipped entirely: no query is executed and no events are emitted.
+   * - Models with a composite primary key are rejected before any query, update them one by one instead.
+   * - Models with optimistic locking enabled are rejected before any query, since each row must be checked against its own version.
+   */
+  public static updateMany(items: Array<MegaModel | Row>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!isFullArr(items) || !items.every((item) => isObj(item))) {
+        return reject(new MegaModelError(`Invalid rows: ${String(items)}`));
+      }
+
+      let pk: string;
+
+      // Each CASE matches a single key column
+      try {
+        pk = this.get.pk();
+      } catch (error) {
+        return reject(error);
+      }
+
+      const version = this.get.versionColumn();
+
+      if (isDefined(version)) {
+        return reject(
+          new MegaModelError(
+            `Unsupported versionColumn in ${this.name} model: ${version}`
+          )
+        );
+      }
+
+      const ignore = [...this.get.ignore(), pk];
+
+      let entries: Array<{ key: any; row: Row; model?: MegaModel }>;
+
+      try {
+        entries = items
+          .map((item) => {
+            if (item instanceof MegaModel) {
+              if (!(item instanceof this)) {
+                throw new MegaModelError(`Invalid ${this.name} model`);
+              }
+
+              const original = item.getOriginal(pk);
+              const value = isDefined(original) ? original : item.valueOf(pk);
+              const key = serialize(this, { [pk]: value })[pk];
+              const row = mutate(this, filter(ignore, item.getChanges()));
+
+              return { key, row, model: item };
+            }
+
+            if (!isStr(item[pk]) && !isNum(item[pk])) {
+              throw new MegaModelError(
+                `Invalid ${pk} value: ${String(item[pk])}`
+              );
+            }
+
+            return { key: item[pk], row: mutate(this, filter(ignore, item)) };
+          })
+          .filter((entry) => isFullObj(entry.row));
+      } catch (error) {
+        return reject(error);
+      }
+
+      if (entries.length === 0) return resolve();
+
+      const rows = entries.map((entry) => entry.row);
+      let data: Rows;
+
+      validate(this, rows, true)
+        .then(() => {
+          if (this.get.timestamps()) {
+            const datetime = UTC.get.datetime();
+            const updatedAt = this.get.updatedAt();
+            rows.forEach((row) => (row[updatedAt] = datetime));
+          }
+
+          this.get.emitter().emit(UPDATE_MANY, rows);
+
+          data = rows.map((row) => serialize(this, { ...row }));
+
+          const values = [];
+          const columns = data.reduce((columns, row) => {
+            Object.keys(row).forEach((column) => {
+              if (!columns.includes(column)) columns.push(column);
+            });
+
+            return columns;
+          }, []);
+
+          const sets = columns.map((column) => {
+            const cases = data.reduce((cases, row, index) => {
+              if (!(column in row)) return cases;
+
+              // NULL values are inlined, just like the builder does
+              values.push(entries[index].key);
+              if (row[column] === null) return `${cases} WHEN ? THEN NULL`;
+
+              values.push(row[column]);
+              return `${cases} WHEN ? THEN ?`;
+            }, '');
+
+            return `${column} = CASE ${pk}${cases} ELSE ${column} END`;
+          });
+
+          const keys = entries.map((entry) => entry.key);
+          const placeholders = keys.map(() => '?').join(', ');
+
+          values.push(...keys);
+
+          return this.get
+            .builder()
+            .raw(
+              `UPDATE ${this.get.table()} SET ${sets.join(', ')} WHERE ${pk} IN (${placeholders});`,
+              values
+            );
+        })
+        .then(() => {
+          entries.forEach((entry, index) => {
+            if (!isDefined(entry.model)) return;
+
+            const values = cast(this, { ...data[index] });
+            Object.keys(values).forEach(
+              (key) => (entry.model[key] = values[key])
+            );
+
+            snapshot(entry.model);
+          });
+
+          this.get
+            .emitter()
+            .emit(
+              UPDATED_MANY,
+              entries.map((entry) =>
+                isDefined(entry.model) ? entry.model : entry.row
+              )
+            );
+
+          resolve();
+        })
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Runs the given callback inside a transaction if a lock is requested, otherwise runs it directly.
+   *
+   * @param lock Whether the callback locks the selected rows.
+   * @param callback The function to run.
+   * @returns A promise that resolves with the callback result.
+   */
+  private static locked<T>(
+    lock: boolean,
+    callback: () => Promise<T>
+  ): Promise<T> {
+    return lock ? this.transaction(callback) : callback();
+  }
+
+  /**
+   * Finds the first record matching the given column values, or creates a new unsaved instance.
+   *
+   * @param match An object mapping columns to the values to match.
+   * @param extra Additional values to set on the new instance beside the `match` values.
+   * @param options Set `lock` to `true` to select an existing record using `FOR UPDATE` inside a transaction.
+   * @returns A promise that resolves with the found model, or a new instance that is not inserted yet.
+   * @throws `MegaModelError` if the provided match or extra values are invalid.
+   * @note Insert the new instance using `insert()`, it's not persisted in the database.
+   */
+  public static firstOrNew(
+    match: Row,
+    extra: Row = {},
+    options?: LockOptions
+  ): Promise<MegaModel> {
+    return new Promise((resolve, reject) => {
+      if (!isFullObj(match)) {
+        return reject(new MegaModelError(`Invalid match: ${String(match)}`));
+      }
+
+      if (!isObj(extra)) {
+        return reject(new MegaModelError(`Invalid row: ${String(extra)}`));
+      }
+
+      const lock = isObj(options) && options.lock === true;
+
+      this.locked(lock, () =>
+        first(this, match, lock).then((model) =>
+          isDefined(model) ? model : new this({ ...match, ...extra })
+        )
+      )
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Finds the first record matching the given column values, or inserts a new one.
+   *
+   * @param match An object mapping columns to the values to match.
+   * @param extra Additional values to insert beside the `match` values.
+   * @param options Set `lock` to `true` to select an existing record using `FOR UPDATE` inside a transaction.
+   * @returns A promise that resolves with the found or inserted model.
+   * @throws `MegaModelError` if the provided match or extra values are invalid.
+   * @throws `MegaModelValidationError` if the inserted row does not pass the model `rules`.
+   *
+   * @notes
+   * - The new record is inserted using `insert()`, so the `INSERT` and `INSERTED` events are emitted.
+   * - A missing record can't be locked, so concurrent calls rely on a unique constraint on the `match` columns:
+   *   if the insert fails, the record inserted by the other call is selected instead.
+   */
+  public static firstOrCreate(
+    match: Row,
+    extra: Row = {},
+    options?: LockOptions
+  ): Promise<MegaModel> {
+    return new Promise((resolve, reject) => {
+      if (!isFullObj(match)) {
+        return reject(new MegaModelError(`Invalid match: ${String(match)}`));
+      }
+
+      if (!isObj(extra)) {
+        return reject(new MegaModelError(`Invalid row: ${String(extra)}`));
+      }
+
+      const lock = isObj(options) && options.lock === true;
+
+      this.locked(lock, () =>
+        first(this, match, lock).then((model) =>
+          isDefined(model)
+            ? model
+            : create(this, match, { ...match, ...extra })
+        )
+      )
+        .then(resolve)
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Updates the first record matching the given column values, or inserts a new one.
    *
-   * @param rows An array of objects, where each object represents a row to be inserted into the table.
-   * @returns A promise that resolves to an array of model instances.
-   * @throws `MegaModelError` if the provided rows are invalid (i.e., if the rows are not an array of objects).
+   * @param match An object mapping columns to the values to match.
+   * @param values The values to update, or to insert beside the `match` values.
+   * @param options Set `lock` to `true` to select an existing record using `FOR UPDATE` inside a transaction.
+   * @returns A promise that resolves with the updated or inserted model.
+   * @throws `MegaModelError` if the provided match or values are invalid.
+   * @throws `MegaModelValidationError` if the values do not pass the model `rules`.
    *
    * @notes
-   * - If timestamps handling is enabled, the `created_at` and `updated_at` columns will be automatically populated with the current date and time for each row.
-   * - The method will emit the `INSERT_MANY` event before the rows are inserted and the `INSERTED_MANY` event after the rows are successfully inserted.
-   * - For `PostgreSQL`: The resolved model instances include their primary keys.
-   * - For `MySQL` & `SQLite`: The resolved model instances do not include primary keys.
+   * - The record is updated using `update()`, so the `UPDATE` and `UPDATED` events are emitted, and unchanged values are skipped.
+   * - The new record is inserted using `insert()`, so the `INSERT` and `INSERTED` events are emitted.
+   * - A missing record can't be locked, so concurrent calls rely on a unique constraint on the `match` columns:
+   *   if the insert fails, the record inserted by the other call is selected and updated instead.
    */
-  public static insertMany(rows: Rows): Promise<Array<MegaModel>> {
+  public static updateOrCreate(
+    match: Row,
+    values: Row = {},
+    options?: LockOptions
+  ): Promise<MegaModel> {
     return new Promise((resolve, reject) => {
-      if (!isArrOfObj(rows)) {
-        return reject(new MegaModelError(`Invalid rows: ${String(rows)}`));
+      if (!isFullObj(match)) {
+        return reject(new MegaModelError(`Invalid match: ${String(match)}`));
       }
 
-      const datetime = UTC.get.datetime();
-      const createdAt = this.get.createdAt();
-      const updatedAt = this.get.updatedAt();
-
-      if (this.get.timestamps()) {
-        rows.forEach((row) => {
-          row[createdAt] = datetime;
-          row[updatedAt] = datetime;
-        });
+      if (!isObj(values)) {
+        return reject(new MegaModelError(`Invalid row: ${String(values)}`));
       }
 
-      this.get.emitter().emit(INSERT_MANY, rows);
-
-      const builder = this.get.builder();
-      const connection = builder.get.connection();
-      const insert = builder.insert();
-      const pk = this.get.pk();
-
-      if (isPostgreSQL(connection.driver)) insert.returning(pk);
-
-      insert
-        .into(this.get.table())
-        .rows(rows)
-        .exec()
-        .then((result: Rows | Row | void) => {
-          if (isArr(result)) {
-            rows = rows.map((row, index) => {
-              const columns = Object.keys(row);
-              const values = Object.values(row);
-
-              // add pk
-              values.unshift(result[index][pk]);
-              columns.unshift(pk);
+      const lock = isObj(options) && options.lock === true;
 
-              const entries = columns.map((col, index) => [col, values[index]]);
-              return Object.fromEntries(entries);
-            });
-          }
+      this.locked(lock, () =>
+        first(this, match, lock).then((model) => {
+          const update = (found: MegaModel) => {
+            Object.keys(values).forEach((key) => (found[key] = values[key]));
+            return found.update().then(() => found);
+          };
 
-          const models = rows.map((row) => new this(modify(this, row)));
-          this.get.emitter().emit(INSERTED_MANY, models);
-          resolve(models);
+          if (isDefined(model)) return update(model);
+          return create(this, match, { ...match, ...values }, update);
         })
+      )
+        .then(resolve)
         .catch(reject);
     });
   }
@@ -812,6 +5330,165 @@ export class MegaModel {
       .col(...this.get.columns());
   }
 
+  /**
+   * Select records from the model's associated table and eager load the given relations.
+   *
+   * @param relations The names of the relations registered in the model's `relations`.
+   * @returns A `Selector` instance that can be used to build the query.
+   *
+   * @notes
+   * - This is a shortcut for `select().with(...relations)`.
+   * - Each relation is loaded with a single `IN (...)` query over the whole result set,
+   *   so loading the posts of 100 users issues 2 queries instead of 101.
+   * - The related models are attached to each instance under the relation name:
+   *   an array for `OneToMany` and `ManyToMany`, a model or `undefined` for `OneToOne` and `References`.
+   */
+  public static with(...relations: Array<string | Constraints>) {
+    return this.select().with(...relations);
+  }
+
+  /**
+   * Select a specific page of records from the model's associated table.
+   *
+   * @param page The page number to retrieve (starting from 1).
+   * @param perPage The number of models per page (default is 10).
+   * @returns A promise that resolves with the page models and pagination details.
+   * @note This is a shortcut for `select().page(page, perPage)`.
+   */
+  public static paginate(page: number, perPage?: number): Promise<Page> {
+    return this.select().page(page, perPage);
+  }
+
+  /**
+   * Select the page of records located by a cursor from the model's associated table.
+   *
+   * @param options The `after` or `before` cursor, the `limit` and the `orderBy` sort key.
+   * @returns A promise that resolves with the page models and the `next` and `prev` cursors.
+   * @note This is a shortcut for `select().cursorPaginate(options)`.
+   */
+  public static cursorPaginate(options?: CursorOptions): Promise<CursorPage> {
+    return this.select().cursorPaginate(options);
+  }
+
+  /**
+   * Counts the records in the model's associated table.
+   * @returns A promise that resolves with the number of records.
+   * @note This is a shortcut for `select().count()`.
+   */
+  public static count(): Promise<number> {
+    return this.select().count();
+  }
+
+  /**
+   * Sums the values of a column in the model's associated table.
+   * @param column The column to sum.
+   * @returns A promise that resolves with the sum, or `0` if the table is empty.
+   * @note This is a shortcut for `select().sum(column)`.
+   */
+  public static sum(column: string): Promise<number> {
+    return this.select().sum(column);
+  }
+
+  /**
+   * Averages the values of a column in the model's associated table.
+   * @param column The column to average.
+   * @returns A promise that resolves with the average, or `null` if the table is empty.
+   * @note This is a shortcut for `select().avg(column)`.
+   */
+  public static avg(column: string): Promise<number | null> {
+    return this.select().avg(column);
+  }
+
+  /**
+   * Finds the minimum value of a column in the model's associated table.
+   * @param column The column to check.
+   * @returns A promise that resolves with the minimum value, or `null` if the table is empty.
+   * @note This is a shortcut for `select().min(column)`.
+   */
+  public static min(column: string): Promise<any> {
+    return this.select().min(column);
+  }
+
+  /**
+   * Finds the maximum value of a column in the model's associated table.
+   * @param column The column to check.
+   * @returns A promise that resolves with the maximum value, or `null` if the table is empty.
+   * @note This is a shortcut for `select().max(column)`.
+   */
+  public static max(column: string): Promise<any> {
+    return this.select().max(column);
+  }
+
+  /**
+   * Checks whether the model's associated table has at least one record.
+   * @returns A promise that resolves with `true` if a record exists, otherwise `false`.
+   * @note This is a shortcut for `select().exists()`.
+   */
+  public static exists(): Promise<boolean> {
+    return this.select().exists();
+  }
+
+  /**
+   * Select all records in batches ordered by the primary key, and pass each batch to the callback.
+   *
+   * @param size The number of models per batch.
+   * @param callback The function to call with each batch, returning `false` stops the iteration.
+   * @returns A promise that resolves once all batches are processed.
+   * @note This is a shortcut for `select().chunk(size, callback)`.
+   */
+  public static chunk(
+    size: number,
+    callback: Handler<Array<MegaModel>>
+  ): Promise<void> {
+    return this.select().chunk(size, callback);
+  }
+
+  /**
+   * Select all records in batches ordered by the primary key, and pass each model to the callback.
+   *
+   * @param callback The function to call with each model, returning `false` stops the iteration.
+   * @param size The number of models per batch (default is 100).
+   * @returns A promise that resolves once all models are processed.
+   * @note This is a shortcut for `select().each(callback, size)`.
+   */
+  public static each(
+    callback: Handler<MegaModel>,
+    size?: number
+  ): Promise<void> {
+    return this.select().each(callback, size);
+  }
+
+  /**
+   * Creates an async iterator over all records, fetched in batches ordered by the primary key.
+   *
+   * @param size The number of models per batch (default is 100).
+   * @returns An async iterator to use with `for await (const model of User.cursor())`.
+   * @note This is a shortcut for `select().cursor(size)`.
+   */
+  public static cursor(size?: number): AsyncIterableIterator<MegaModel> {
+    return this.select().cursor(size);
+  }
+
+  /**
+   * Select records from the model's associated table including soft deleted records.
+   *
+   * @returns A `Selector` instance that can be used to build the query.
+   * @note This is a shortcut for `select().withTrashed()`.
+   */
+  public static withTrashed() {
+    return this.select().withTrashed();
+  }
+
+  /**
+   * Select only the soft deleted records from the model's associated table.
+   *
+   * @returns A `Selector` instance that can be used to build the query.
+   * @note This is a shortcut for `select().onlyTrashed()`.
+   */
+  public static onlyTrashed() {
+    return this.select().onlyTrashed();
+  }
+
   /**
    * Get the class of the current model instance. It's useful for configuring the model or accessing static configuration.
    *
@@ -851,20 +5528,71 @@ export class MegaModel {
    * @notes
    * - The method triggers the `DELETE` event before the deletion and the `DELETED` event after the deletion.
    * - Ensure that the primary key is set on the instance before calling `delete()`.
+   * - When soft deletes are enabled, the `deletedAt` column is set instead of removing the record.
+   * - The record is targeted using the original primary key value, like `update()`.
+   * - If `versionColumn` is set, the record is also targeted using its original version,
+   *   and the method rejects with a `MegaModelConflictError` if no record matches.
+   *   When soft deletes are enabled, the version is incremented as well.
    */
   public delete(): Promise<void> {
     return new Promise((resolve, reject) => {
       const model = this.model();
-      const pk = model.get.pk();
+
+      if (!model.get.softDeletes()) {
+        return this.forceDelete().then(resolve).catch(reject);
+      }
+
+      const keys = model.get.keys();
+      const deletedAt = model.get.deletedAt();
+      const datetime = UTC.get.datetime();
+      const version = model.get.versionColumn();
+      const current = revision(this);
+      const connection = model.get.builder().get.connection();
 
       model.get.emitter().emit(DELETE, this);
 
-      model.get
-        .builder()
-        .delete()
+      const query = new Modify(connection, version)
+        .table(model.get.table())
+        .set({ [deletedAt]: datetime })
+        .where((col, con) => match(col, con, keys, identify(this)));
+
+      guard(model, query, current, 'delete')
+        .then(() => {
+          this[deletedAt] = datetime;
+          settle(this, [deletedAt, ...bump(this, current)]);
+          model.get.emitter().emit(DELETED, this);
+          resolve();
+        })
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Permanently deletes the current model instance from the database, even when soft deletes are enabled.
+   *
+   * @returns A promise that resolves when the deletion is complete.
+   * @throws An error if the primary key is missing or the deletion fails.
+   *
+   * @notes
+   * - The method triggers the `DELETE` event before the deletion and the `DELETED` event after the deletion.
+   * - The record is targeted using the original primary key value, like `update()`.
+   * - If `versionColumn` is set, the record is also targeted using its original version,
+   *   and the method rejects with a `MegaModelConflictError` if no record matches.
+   */
+  public forceDelete(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const model = this.model();
+      const keys = model.get.keys();
+      const current = revision(this);
+      const connection = model.get.builder().get.connection();
+
+      model.get.emitter().emit(DELETE, this);
+
+      const query = new Remove(connection)
         .from(model.get.table())
-        .where((col) => col(pk).equal(this.valueOf(pk)))
-        .exec()
+        .where((col, con) => match(col, con, keys, identify(this)));
+
+      guard(model, query, current, 'delete')
         .then(() => {
           model.get.emitter().emit(DELETED, this);
           resolve();
@@ -873,41 +5601,344 @@ export class MegaModel {
     });
   }
 
+  /**
+   * Restores the current soft deleted model instance by clearing its `deletedAt` column.
+   *
+   * @returns A promise that resolves when the restore is complete.
+   * @throws An error if soft deletes are disabled, the primary key is missing or the restore fails.
+   *
+   * @notes
+   * - The method triggers the `RESTORE` event before the restore and the `RESTORED` event after the restore.
+   * - The record is targeted using the original primary key value, like `update()`.
+   * - If `versionColumn` is set, the record is also targeted using its original version, and the version is incremented.
+   *   If no record matches, the restore rejects with a `MegaModelConflictError`.
+   */
+  public restore(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const model = this.model();
+
+      if (!model.get.softDeletes()) {
+        return reject(
+          new MegaModelError(
+            `Soft deletes are not enabled in ${model.name} model`
+          )
+        );
+      }
+
+      const keys = model.get.keys();
+      const deletedAt = model.get.deletedAt();
+      const version = model.get.versionColumn();
+      const current = revision(this);
+      const connection = model.get.builder().get.connection();
+
+      model.get.emitter().emit(RESTORE, this);
+
+      const query = new Modify(connection, version)
+        .table(model.get.table())
+        .set({ [deletedAt]: null })
+        .where((col, con) => match(col, con, keys, identify(this)));
+
+      guard(model, query, current, 'restore')
+        .then(() => {
+          this[deletedAt] = null;
+          settle(this, [deletedAt, ...bump(this, current)]);
+          model.get.emitter().emit(RESTORED, this);
+          resolve();
+        })
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Tells whether the current model instance is soft deleted.
+   *
+   * @returns `true` if soft deletes are enabled and the `deletedAt` column is set.
+   */
+  public isTrashed(): boolean {
+    const model = this.model();
+
+    if (!model.get.softDeletes()) return false;
+
+    const value = this[model.get.deletedAt()];
+    return isDefined(value) && value !== null;
+  }
+
+  /**
+   * Tells whether the model instance has unsaved changes.
+   *
+   * @param column An optional column name to check, if omitted all columns are checked.
+   * @returns `true` if the column (or any column) value differs from its original value.
+   */
+  public isDirty(column?: string): boolean {
+    const changes = this.getChanges();
+
+    if (isDefined(column)) return Object.keys(changes).includes(column);
+    return Object.keys(changes).length > 0;
+  }
+
+  /**
+   * Get the columns that changed since the model instance was created or last updated.
+   *
+   * @returns An object where each key is a changed column name and the value is its current value.
+   * @note Relations registered in the model's `relations` are never reported as changes.
+   */
+  public getChanges(): Row {
+    const original = this[ORIGINAL] || {};
+    const relations = this.model().get.relations();
+
+    return Object.keys(this).reduce((changes, column) => {
+      if (relations.includes(column)) return changes;
+      if (!same(original[column], this[column])) changes[column] = this[column];
+      return changes;
+    }, {});
+  }
+
+  /**
+   * Makes the given columns visible in `toJSON()`, even if they are hidden in the model.
+   *
+   * @param columns The column or relation names to show.
+   * @returns The model instance (`this`) to allow method chaining.
+   * @note The override only applies to this instance.
+   */
+  public makeVisible(...columns: Array<string>): this {
+    const visibility = overrides(this);
+
+    visibility.hidden = visibility.hidden.filter((c) => !columns.includes(c));
+    visibility.visible.push(...columns);
+    return this;
+  }
+
+  /**
+   * Hides the given columns from `toJSON()`, even if they are visible in the model.
+   *
+   * @param columns The column or relation names to hide.
+   * @returns The model instance (`this`) to allow method chaining.
+   * @note The override only applies to this instance.
+   */
+  public makeHidden(...columns: Array<string>): this {
+    const visibility = overrides(this);
+
+    visibility.visible = visibility.visible.filter((c) => !columns.includes(c));
+    visibility.hidden.push(...columns);
+    return this;
+  }
+
+  /**
+   * Converts the model instance into a plain object, used by `JSON.stringify()`.
+   *
+   * @returns An object with the visible columns and the loaded relations.
+   *
+   * @notes
+   * - Columns listed in the model's `hidden` are excluded, and if `visible` is set, only its columns are included.
+   * - Columns passed to `makeVisible()` and `makeHidden()` override the model's `hidden` and `visible`.
+   * - Loaded relations are included (unless hidden), and the related models are converted using their own `toJSON()`.
+   */
+  public toJSON(): Row {
+    const model = this.model();
+    const hidden = model.get.hidden();
+    const visible = model.get.visible();
+    const visibility = overrides(this);
+
+    return Object.keys(this).reduce((json, column) => {
+      if (visibility.hidden.includes(column)) return json;
+
+      if (!visibility.visible.includes(column)) {
+        if (hidden.includes(column)) return json;
+        if (visible.length > 0 && !visible.includes(column)) return json;
+      }
+
+      json[column] = plain(this[column]);
+      return json;
+    }, {});
+  }
+
+  /**
+   * Get the original values of the model instance (as created, selected or last updated).
+   *
+   * @param column An optional column name, if omitted all original values are returned.
+   * @returns The original value of the column, or an object with all original values.
+   */
+  public getOriginal(column?: string): any {
+    const original = this[ORIGINAL] || {};
+
+    if (isDefined(column)) return clone(original[column]);
+    return clone(original);
+  }
+
   /**
    * Updates the current model instance in the database.
    *
    * This method updates the record associated with the current instance using the model's primary key.
+   * Only the columns that changed since the instance was created, selected or last updated are sent.
    * Additionally, it automatically updates the `updatedAt` timestamp if timestamps handing is enabled.
    *
    * @returns A promise that resolves when the update is complete.
    * @throws An error if the update fails or the primary key is missing.
+   * @throws `MegaModelValidationError` if the changed columns do not pass the model `rules`.
    *
    * @notes
    * - The method triggers the `UPDATE` event before the update and the `UPDATED` event after the update.
    * - Ensure that the primary key is set on the instance before calling `update()`.
    * - If the model has timestamps handling enabled, the `updatedAt` field will be updated automatically.
+   * - The changed values are passed through the registered `mutators` before they are validated and updated.
+   * - The changed values are serialized using the registered `casts`, and casted back on the instance after the update.
+   * - If no column has changed, the update is skipped entirely: no query is executed and no events are emitted.
+   * - Only the written columns are marked as saved, changes to the `ignore` columns stay unsaved.
+   * - The record is targeted using the original primary key value, so the primary key itself can be updated.
+   * - If `versionColumn` is set, the record is also targeted using its original version, and the version is incremented.
+   *   If no record matches (it was changed or deleted meanwhile), the update rejects with a `MegaModelConflictError`.
    */
   public update(): Promise<void> {
     return new Promise((resolve, reject) => {
       const model = this.model();
-      const pk = model.get.pk();
-      const row = filter(model.get.ignore(), this);
+      const keys = model.get.keys();
+      const key = identify(this);
+      const version = model.get.versionColumn();
+      const current = revision(this);
+      const row = mutate(model, filter(model.get.ignore(), this.getChanges()));
 
-      if (model.get.timestamps()) {
-        row[model.get.updatedAt()] = UTC.get.datetime();
-      }
+      if (isDefined(version)) delete row[version];
+      if (!isFullObj(row)) return resolve();
 
-      model.get.emitter().emit(UPDATE, row);
+      let data: Row;
 
-      model.get
-        .builder()
-        .update()
-        .table(model.get.table())
-        .set(row)
-        .where((col) => col(pk).equal(this.valueOf(pk)))
-        .exec()
+      validate(model, row, true)
+        .then(() => {
+          if (model.get.timestamps()) {
+            row[model.get.updatedAt()] = UTC.get.datetime();
+          }
+
+          model.get.emitter().emit(UPDATE, row);
+
+          data = serialize(model, { ...row });
+
+          const connection = model.get.builder().get.connection();
+          const query = new Modify(connection, version)
+            .table(model.get.table())
+            .set(data)
+            .where((col, con) => match(col, con, keys, key));
+
+          return guard(model, query, current, 'update');
+        })
         .then(() => {
-          Object.keys(row).forEach((key) => (this[key] = row[key]));
+          const values = cast(model, { ...data });
+          Object.keys(values).forEach((key) => (this[key] = values[key]));
+
+          // Ignored columns are never written, so they stay unsaved
+          settle(this, [...Object.keys(values), ...bump(this, current)]);
+          model.get.emitter().emit(UPDATED, this);
+          resolve();
+        })
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Atomically increments a column of the current model instance in the database.
+   *
+   * @param column The column to increment.
+   * @param by The amount to add (default is `1`).
+   * @param extra Additional values to update beside the column.
+   * @returns A promise that resolves when the update is complete.
+   * @throws `MegaModelError` if the column, amount or extra values are invalid.
+   * @throws `MegaModelValidationError` if the extra values do not pass the model `rules`.
+   *
+   * @notes
+   * - The column is set relative to its current value in the database (e.g., `views = views + ?`), so concurrent increments are never lost.
+   * - For `PostgreSQL`: The fresh column value is returned by the `UPDATE` query using `RETURNING`.
+   * - For `MySQL` & `SQLite`: The column value is selected again after the update. Outside a transaction, this is best-effort:
+   *   a concurrent change made between both queries is included in the selected value.
+   * - Only the incremented column and the extra values are marked as saved, other unsaved changes are kept.
+   * - If optimistic locking is enabled, the `versionColumn` is incremented by `1` and refreshed as well.
+   * - The method triggers the `UPDATE` event (with the extra values) before the update and the `UPDATED` event after the update.
+   * - If the model has timestamps handling enabled, the `updatedAt` field will be updated automatically.
+   */
+  public increment(
+    column: string,
+    by: number = 1,
+    extra: Row = {}
+  ): Promise<void> {
+    return this.step(column, by, extra, '+');
+  }
+
+  /**
+   * Atomically decrements a column of the current model instance in the database.
+   *
+   * @param column The column to decrement.
+   * @param by The amount to subtract (default is `1`).
+   * @param extra Additional values to update beside the column.
+   * @returns A promise that resolves when the update is complete.
+   * @throws `MegaModelError` if the column, amount or extra values are invalid.
+   * @throws `MegaModelValidationError` if the extra values do not pass the model `rules`.
+   * @note This method behaves just like `increment()`, using `stock = stock - ?` instead.
+   */
+  public decrement(
+    column: string,
+    by: number = 1,
+    extra: Row = {}
+  ): Promise<void> {
+    return this.step(column, by, extra, '-');
+  }
+
+  /**
+   * Increments or decrements a column of the current model instance in the database, then refreshes its value.
+   *
+   * @param column The column to increment or decrement.
+   * @param amount The amount to add or subtract.
+   * @param extra Additional values to update beside the column.
+   * @param operator The operator to use (`+` or `-`).
+   * @returns A promise that resolves when the update is complete.
+   */
+  private step(
+    column: string,
+    amount: number,
+    extra: Row,
+    operator: '+' | '-'
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const model = this.model();
+      const keys = model.get.keys();
+      const key = identify(this);
+      const version = model.get.versionColumn();
+      const columns = isDefined(version) ? [column, version] : [column];
+
+      let data: Row;
+
+      counter(model, column, amount, extra, operator)
+        .then((result) => {
+          const builder = model.get.builder();
+          const query = result.query.where((col, con) =>
+            match(col, con, keys, key)
+          );
+
+          data = result.data;
+          model.get.emitter().emit(UPDATE, result.row);
+
+          // PostgreSQL returns the fresh value from the UPDATE itself
+          if (isPostgreSQL(builder.get.connection().driver)) {
+            return query.returning(...columns).exec();
+          }
+
+          return query.exec().then(() =>
+            builder
+              .select()
+              .col(...columns)
+              .from(model.get.table())
+              .where((col, con) => match(col, con, keys, key))
+              .exec()
+          );
+        })
+        .then((rows: Rows) => {
+          const values = cast(model, { ...data });
+          Object.keys(values).forEach((key) => (this[key] = values[key]));
+
+          if (isArr(rows) && isObj(rows[0])) {
+            const row = modify(model, cast(model, { ...rows[0] }));
+            columns.forEach((column) => (this[column] = row[column]));
+          }
+
+          // Other unsaved changes are kept
+          settle(this, [...columns, ...Object.keys(values)]);
           model.get.emitter().emit(UPDATED, this);
           resolve();
         })
@@ -944,8 +5975,11 @@ export class MegaModel {
       table = isFullStr(table) ? table : parent.get.link(child);
       row = isObj(row) ? row : {};
 
-      row[parent.get.fk()] = this.valueOf(parent.get.pk());
-      row[child.get.fk()] = model.valueOf(child.get.pk());
+      const parents = identify(this);
+      const children = identify(model);
+
+      parent.get.fks().forEach((fk, index) => (row[fk] = parents[index]));
+      child.get.fks().forEach((fk, index) => (row[fk] = children[index]));
 
       parent.get.emitter().emit(LINK, this, model, row);
 
@@ -1006,12 +6040,15 @@ export class MegaModel {
 
       rows = isArrOfObj(rows) ? rows : [];
 
+      const parents = identify(this);
+
       models.forEach((model, index) => {
         const child = model.model();
+        const children = identify(model);
         const row: any = {};
 
-        row[parent.get.fk()] = this.valueOf(parent.get.pk());
-        row[child.get.fk()] = model.valueOf(child.get.pk());
+        parent.get.fks().forEach((fk, i) => (row[fk] = parents[i]));
+        child.get.fks().forEach((fk, i) => (row[fk] = children[i]));
 
         if (rows[index]) {
           Object.assign(row, rows[index]);
@@ -1069,9 +6106,9 @@ export class MegaModel {
         .delete()
         .from(table)
         .where((col, con) => {
-          col(parent.get.fk()).equal(this.valueOf(parent.get.pk()));
+          match(col, con, parent.get.fks(), identify(this));
           con.and();
-          col(child.get.fk()).equal(model.valueOf(child.get.pk()));
+          match(col, con, child.get.fks(), identify(model));
         })
         .exec()
         .then(() => {
@@ -1124,10 +6161,13 @@ export class MegaModel {
         .delete()
         .from(table)
         .where((col, con) => {
-          col(parent.get.fk()).equal(this.valueOf(parent.get.pk()));
+          match(col, con, parent.get.fks(), identify(this));
           con.and();
-          col(child.get.fk()).in(
-            ...models.map((model) => model.valueOf(child.get.pk()))
+          among(
+            col,
+            con,
+            child.get.fks(),
+            models.map((model) => identify(model))
           );
         })
         .exec()
@@ -1165,8 +6205,8 @@ export class MegaModel {
       // Example SQL: SELECT FROM profiles WHERE user_id = 1;
       return child
         .select()
-        .where((col) =>
-          col(parent.get.fk()).equal(this.valueOf(parent.get.pk()))
+        .where((col, con) =>
+          match(col, con, parent.get.fks(), identify(this))
         )
         .exec()
         .then((models: Array<any>) => {
@@ -1214,8 +6254,13 @@ export class MegaModel {
       // Example SQL: SELECT FROM users WHERE id = 1;
       return parent
         .select()
-        .where((col) =>
-          col(parent.get.pk()).equal(this.valueOf(parent.get.fk()))
+        .where((col, con) =>
+          match(
+            col,
+            con,
+            parent.get.keys(),
+            parent.get.fks().map((fk) => this.valueOf(fk))
+          )
         )
         .exec()
         .then((models: Array<any>) => {
@@ -1262,8 +6307,8 @@ export class MegaModel {
 
       return child
         .select()
-        .where((col) =>
-          col(parent.get.fk()).equal(this.valueOf(parent.get.pk()))
+        .where((col, con) =>
+          match(col, con, parent.get.fks(), identify(this))
         )
         .exec()
         .then(resolve as () => M)
@@ -1311,14 +6356,20 @@ export class MegaModel {
       child
         .select()
         .col(...child.get.columns(), ...columns.map((col) => `${table}.${col}`))
-        .join(table, (col) =>
-          col(`${child.get.table()}.${child.get.pk()}`).equal(
-            ref(`${table}.${child.get.fk()}`)
+        .join(table, (col, con) =>
+          match(
+            col,
+            con,
+            child.get.keys().map((pk) => `${child.get.table()}.${pk}`),
+            child.get.fks().map((fk) => ref(`${table}.${fk}`))
           )
         )
-        .where((col) =>
-          col(`${table}.${parent.get.fk()}`).equal(
-            this.valueOf(parent.get.pk())
+        .where((col, con) =>
+          match(
+            col,
+            con,
+            parent.get.fks().map((fk) => `${table}.${fk}`),
+            identify(this)
           )
         )
         .exec()
@@ -11,13 +11,21 @@ import {
   LINKED,
   LINKED_MANY,
   MegaModel,
+  MegaModelConflictError,
   MegaModelError,
+  MegaModelValidationError,
+  RESTORE,
+  RESTORED,
   UNLINK,
   UNLINK_MANY,
   UNLINKED,
   UNLINKED_MANY,
   UPDATE,
+  UPDATE_MANY,
   UPDATED,
+  UPDATED_MANY,
+  UPSERT,
+  UPSERTED,
 } from '../src';
 import { Col, Con, ref } from '@megaorm/builder';
 import { UTC } from '@megaorm/utc';
@@ -29,11 +37,15 @@ const mock = {
       id: Symbol('MegaPoolConnection'),
       driver: { id: Symbol('MySQL') },
       query: jest.fn(() => Promise.resolve()),
+      release: jest.fn(),
     } as any;
   },
   pg: () => {
     return { id: Symbol('PostgreSQL') };
   },
+  pool: (connection: any) => {
+    return { request: jest.fn(() => Promise.resolve(connection)) } as any;
+  },
 };
 
 describe('MegaModel', () => {
@@ -225,6 +237,114 @@ describe('MegaModel', () => {
         expect(User.get.modifiers('name')).toEqual([]);
       });
     });
+
+    describe('mutators()', () => {
+      it('should return an empty array if invalid mutator column is passed', () => {
+        expect(User.get.mutators(undefined)).toEqual([]);
+        expect(User.get.mutators('')).toEqual([]);
+        expect(User.get.mutators(null)).toEqual([]);
+      });
+
+      it('should return correct mutators if mutators are defined', () => {
+        const mutatorFn = (email) => email.toLowerCase();
+
+        User.mutators = { email: [mutatorFn] };
+
+        expect(User.get.mutators('email')).toEqual([mutatorFn]);
+      });
+
+      it('should return an empty array if the mutators structure is incorrect', () => {
+        User.mutators = { email: 'invalid-mutator' };
+
+        expect(User.get.mutators('email')).toEqual([]);
+      });
+    });
+
+    describe('registry', () => {
+      class Post extends (MegaModel as any) {}
+
+      beforeEach(() => {
+        User.table = 'users';
+        User.columns = undefined;
+        Post.table = 'posts';
+      });
+
+      it('should return the same getter instance for each model', () => {
+        expect(User.get).toBe(User.get);
+        expect(User.get).not.toBe(Post.get);
+      });
+
+      it('should keep the model context of each getter', () => {
+        const get = User.get;
+
+        expect(Post.get.table()).toBe('posts');
+        expect(get.table()).toBe('users');
+      });
+
+      it('should cache the metadata until the configuration changes', () => {
+        User.columns = ['id', 'name'];
+
+        const columns = User.get.columns();
+        expect(User.get.columns()).toBe(columns);
+
+        // Reassigning is detected automatically
+        User.columns = ['id'];
+        expect(User.get.columns()).toEqual(['users.id']);
+
+        // Mutating in place requires invalidation
+        User.columns.push('email');
+        expect(User.get.columns()).toEqual(['users.id']);
+
+        User.get.invalidate();
+        expect(User.get.columns()).toEqual(['users.id', 'users.email']);
+      });
+
+      it('should build the cast instances once for all hydrated models', () => {
+        const constructed = jest.fn();
+
+        class Json {
+          constructor() {
+            constructed();
+          }
+
+          get(value: any) {
+            return JSON.parse(value);
+          }
+
+          set(value: any) {
+            return JSON.stringify(value);
+          }
+        }
+
+        User.casts = { meta: Json };
+
+        const rows = Array.from({ length: 1000 }, (_, id) => ({
+          id,
+          meta: '{}',
+        }));
+
+        rows.forEach((row) => User.get.cast('meta').get(row.meta));
+
+        expect(constructed).toHaveBeenCalledTimes(1);
+        expect(User.get.cast('meta')).toBe(User.get.cast('meta'));
+
+        User.casts = undefined;
+      });
+
+      it('should read the plain settings without caching them', () => {
+        const upper = (value: string) => value.toUpperCase();
+
+        User.modifiers = { name: [] };
+        User.modifiers.name.push(upper);
+        expect(User.get.modifiers('name')).toEqual([upper]);
+
+        User.timestamps = false;
+        expect(User.get.timestamps()).toBe(false);
+
+        User.modifiers = undefined;
+        User.timestamps = undefined;
+      });
+    });
   });
 
   describe('where', () => {
@@ -476,6 +596,56 @@ describe('MegaModel', () => {
         'Invalid DELETE condition'
       );
     });
+
+    it('should return an independent instance for each call', async () => {
+      class Post extends (MegaModel as any) {}
+
+      Post.builder = User.builder;
+      Post.table = 'posts';
+
+      connection.query = jest.fn(() => Promise.resolve([]));
+
+      // Create both queries before executing any of them
+      const users = User.where((col) => col('status').equal('active'));
+      const posts = Post.where((col) => col('id').equal(30));
+
+      expect(users).not.toBe(posts);
+
+      await Promise.all([users.select(), posts.delete()]);
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE status = ?;',
+        ['active']
+      );
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'DELETE FROM posts WHERE id = ?;',
+        [30]
+      );
+    });
+
+    it('should chain conditions using andWhere and orWhere', async () => {
+      connection.query = jest.fn(() => Promise.resolve([]));
+
+      await User.where((col) => col('status').equal('active'))
+        .andWhere((col) => col('age').greaterThan(18))
+        .orWhere((col) => col('role').equal('admin'))
+        .select();
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE (status = ?) AND (age > ?) OR (role = ?);',
+        ['active', 18, 'admin']
+      );
+
+      await User.where((col) => col('id').equal(45))
+        .andWhere((col) => col('age').greaterThan(18))
+        .update({ name: 'James' });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'UPDATE users SET name = ? WHERE (id = ?) AND (age > ?);',
+        ['James', 45, 18]
+      );
+    });
   });
 
   describe('find', () => {
@@ -1341,22 +1511,27 @@ describe('MegaModel', () => {
       // Call the update method
       await user.update();
 
-      // Ensure that the query method was called correctly
+      // Ensure that only the changed columns are sent
       expect(connection.query).toHaveBeenCalledTimes(1);
       expect(connection.query).toHaveBeenCalledWith(
-        'UPDATE users SET id = ?, name = ?, age = ?, updated_at = ? WHERE id = ?;',
-        [1, 'James', 45, '2024-11-16 12:00:00', 1]
+        'UPDATE users SET name = ?, age = ?, updated_at = ? WHERE id = ?;',
+        ['James', 45, '2024-11-16 12:00:00', 1]
       );
 
       // Ensure the UPDATE event is emitted before the update
       // Ensure the UPDATED event is emitted after the update
       expect(User.get.emitter).toHaveBeenCalledTimes(2);
-      expect(emitter.emit).toHaveBeenCalledWith(UPDATE, user);
+      expect(emitter.emit).toHaveBeenCalledWith(UPDATE, {
+        name: 'James',
+        age: 45,
+        updated_at: '2024-11-16 12:00:00',
+      });
       expect(emitter.emit).toHaveBeenCalledWith(UPDATED, user);
     });
 
     it('should ignore the `id` field in the update query', async () => {
       // Modify user fields
+      user.id = 5;
       user.name = 'James';
       user.age = 45;
 
@@ -1413,6 +1588,77 @@ describe('MegaModel', () => {
       expect(emitter.emit).toHaveBeenCalledWith(UPDATED, user);
     });
 
+    it('should update the primary key using its original value', async () => {
+      // Ignore nothing
+      (User as any).ignore = undefined;
+
+      // Modify the primary key
+      user.id = 5;
+
+      await user.update();
+
+      // Ensure the original primary key is used in the WHERE clause
+      // Timestamps are still disabled from the previous test case
+      expect(connection.query).toHaveBeenCalledWith(
+        'UPDATE users SET id = ? WHERE id = ?;',
+        [5, 1]
+      );
+
+      // Reset
+      (User as any).ignore = ['id'];
+    });
+
+    it('should skip the update if nothing changed', async () => {
+      await user.update();
+
+      // Ensure no query is executed and no events are emitted
+      expect(connection.query).not.toHaveBeenCalled();
+      expect(emitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('should reset the changes after a successful update', async () => {
+      user.name = 'James';
+
+      await user.update();
+      await user.update();
+
+      // Ensure the second update is skipped
+      expect(connection.query).toHaveBeenCalledTimes(1);
+      expect(user.isDirty()).toBe(false);
+      expect(user.getOriginal('name')).toBe('James');
+    });
+
+    it('should keep the changes of the ignored columns', async () => {
+      user.id = 5;
+      user.name = 'James';
+
+      await user.update();
+
+      // Ensure the ignored primary key is not written
+      // Timestamps are still disabled from the previous test case
+      expect(connection.query).toHaveBeenCalledWith(
+        'UPDATE users SET name = ? WHERE id = ?;',
+        ['James', 1]
+      );
+
+      expect(user.isDirty('name')).toBe(false);
+      expect(user.isDirty('id')).toBe(true);
+      expect(user.getOriginal('id')).toBe(1);
+    });
+
+    it('should keep the changes if the update fails', async () => {
+      connection.query = jest.fn(() =>
+        Promise.reject(new Error('Database error'))
+      );
+
+      user.name = 'James';
+
+      await expect(user.update()).rejects.toThrow('Database error');
+
+      expect(user.isDirty('name')).toBe(true);
+      expect(user.getOriginal('name')).toBe('simon');
+    });
+
     it('should throw an error if primary key is missing', async () => {
       // Create a user instance without a primary key
       const userWithoutPk = new User({ name: 'noPK', age: 30 });
@@ -1429,11 +1675,69 @@ describe('MegaModel', () => {
         Promise.reject(new Error('Database error'))
       );
 
+      // Modify a column, so the update is executed
+      user.name = 'James';
+
       // Call update and expect it to throw an error
       await expect(user.update()).rejects.toThrow('Database error');
     });
   });
 
+  describe('isDirty, getChanges & getOriginal', () => {
+    class User extends MegaModel {
+      static table = 'users';
+      static relations = {
+        posts: { type: 'OneToMany' as const, model: MegaModel },
+      };
+    }
+
+    let user;
+
+    beforeEach(() => {
+      user = new User({ id: 1, name: 'simon', tags: ['a'] });
+    });
+
+    it('should not be dirty right after construction', () => {
+      expect(user.isDirty()).toBe(false);
+      expect(user.isDirty('name')).toBe(false);
+      expect(user.getChanges()).toEqual({});
+    });
+
+    it('should track changed and new columns', () => {
+      user.name = 'James';
+      user.age = 24;
+
+      expect(user.isDirty()).toBe(true);
+      expect(user.isDirty('name')).toBe(true);
+      expect(user.isDirty('id')).toBe(false);
+      expect(user.getChanges()).toEqual({ name: 'James', age: 24 });
+    });
+
+    it('should track in-place changes of objects and arrays', () => {
+      user.tags.push('b');
+
+      expect(user.isDirty('tags')).toBe(true);
+      expect(user.getOriginal('tags')).toEqual(['a']);
+    });
+
+    it('should not track registered relations', () => {
+      user.posts = [];
+
+      expect(user.isDirty()).toBe(false);
+    });
+
+    it('should return the original values', () => {
+      user.name = 'James';
+
+      expect(user.getOriginal('name')).toBe('simon');
+      expect(user.getOriginal()).toEqual({ id: 1, name: 'simon', tags: ['a'] });
+    });
+
+    it('should not expose the original values as columns', () => {
+      expect(Object.keys(user)).toEqual(['id', 'name', 'tags']);
+    });
+  });
+
   describe('link', () => {
     class Post extends MegaModel {
       static table = 'posts';
@@ -1773,7 +2077,7 @@ describe('MegaModel', () => {
       emitter.emit = jest.fn();
 
       Category.builder = new MegaBuilder(connection);
-      Post.get.emitter = jest.fn().mockReturnValue(emitter);
+      Category.get.emitter = jest.fn().mockReturnValue(emitter);
 
       // Mock the delete query to resolve with no errors
       connection.query = jest.fn(() => Promise.resolve(undefined));
@@ -2222,6 +2526,17 @@ describe('MegaModel', () => {
       expect(relatedPosts).toEqual(postData);
     });
 
+    it('should match the original primary key if it is changed in memory', async () => {
+      user.id = 2;
+
+      await user.OneToMany(Post);
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT posts.* FROM posts WHERE user_id = ?;',
+        [1]
+      );
+    });
+
     it('should return an empty array if no related child models are found', async () => {
       // Simulate query returning no related posts
       connection.query = jest.fn(() => Promise.resolve([]));
@@ -2492,4 +2807,3525 @@ describe('MegaModel', () => {
       expect(relatedPosts[1].status).toBe('inactive');
     });
   });
+
+  describe('with', () => {
+    let connection;
+
+    class User extends (MegaModel as any) {
+      static table = 'users';
+      static relations = {
+        posts: { type: 'OneToMany', model: () => Post },
+        profile: { type: 'OneToOne', model: () => Profile },
+      };
+    }
+
+    class Profile extends (MegaModel as any) {
+      static table = 'profiles';
+    }
+
+    class Post extends (MegaModel as any) {
+      static table = 'posts';
+      static relations = {
+        user: { type: 'References', model: User },
+        categories: { type: 'ManyToMany', model: () => Category },
+        comments: { type: 'OneToMany', model: () => Comment },
+      };
+    }
+
+    class Category extends (MegaModel as any) {
+      static table = 'categories';
+    }
+
+    class Comment extends (MegaModel as any) {
+      static table = 'comments';
+      static relations = {
+        author: { type: 'References', model: User },
+      };
+    }
+
+    beforeEach(() => {
+      connection = mock.connection();
+
+      const builder = new MegaBuilder(connection);
+
+      User.builder = builder;
+      Profile.builder = builder;
+      Post.builder = builder;
+      Category.builder = builder;
+      Comment.builder = builder;
+    });
+
+    it('should eager load OneToMany relations with a single query', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1 }, { id: 2 }])
+        .mockResolvedValueOnce([
+          { id: 1, user_id: 1 },
+          { id: 2, user_id: 1 },
+        ]);
+
+      const users = await User.with('posts').exec();
+
+      expect(connection.query).toHaveBeenCalledTimes(2);
+      expect(connection.query).toHaveBeenNthCalledWith(
+        1,
+        'SELECT users.* FROM users;',
+        []
+      );
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT posts.* FROM posts WHERE user_id IN (?, ?);',
+        [1, 2]
+      );
+
+      expect(users[0].posts).toHaveLength(2);
+      expect(users[0].posts[0]).toBeInstanceOf(Post);
+      expect(users[0].posts).toEqual([
+        { id: 1, user_id: 1 },
+        { id: 2, user_id: 1 },
+      ]);
+      expect(users[1].posts).toEqual([]);
+    });
+
+    it('should eager load OneToOne relations', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1 }, { id: 2 }])
+        .mockResolvedValueOnce([{ id: 5, user_id: 2 }]);
+
+      const users = await User.select().with('profile').exec();
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT profiles.* FROM profiles WHERE user_id IN (?, ?);',
+        [1, 2]
+      );
+
+      expect(users[0].profile).toBeUndefined();
+      expect(users[1].profile).toBeInstanceOf(Profile);
+      expect(users[1].profile).toEqual({ id: 5, user_id: 2 });
+    });
+
+    it('should reject if a OneToOne relation has more than one model', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1 }])
+        .mockResolvedValueOnce([
+          { id: 5, user_id: 1 },
+          { id: 6, user_id: 1 },
+        ]);
+
+      await expect(User.with('profile').exec()).rejects.toThrow(
+        new MegaModelError(
+          'Invalid OneToOne relationship: User has more than one Profile'
+        )
+      );
+    });
+
+    it('should eager load References relations', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([
+          { id: 1, user_id: 3 },
+          { id: 2, user_id: 3 },
+          { id: 3, user_id: null },
+        ])
+        .mockResolvedValueOnce([{ id: 3 }]);
+
+      const posts = await Post.with('user').exec();
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT users.* FROM users WHERE id IN (?);',
+        [3]
+      );
+
+      expect(posts[0].user).toBeInstanceOf(User);
+      expect(posts[0].user).toBe(posts[1].user);
+      expect(posts[2].user).toBeUndefined();
+    });
+
+    it('should eager load ManyToMany relations', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1 }, { id: 2 }])
+        .mockResolvedValueOnce([
+          { id: 1, name: 'News', post_id: 1 },
+          { id: 2, name: 'Tech', post_id: 1 },
+          { id: 2, name: 'Tech', post_id: 2 },
+        ]);
+
+      const posts = await Post.with('categories').exec();
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT categories.*, category_post.post_id FROM categories INNER JOIN category_post ON categories.id = category_post.category_id WHERE category_post.post_id IN (?, ?);',
+        [1, 2]
+      );
+
+      expect(posts[0].categories).toEqual([
+        { id: 1, name: 'News' },
+        { id: 2, name: 'Tech' },
+      ]);
+      expect(posts[1].categories).toEqual([{ id: 2, name: 'Tech' }]);
+      expect(posts[1].categories[0]).toBeInstanceOf(Category);
+    });
+
+    it('should run one query per relation', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1 }])
+        .mockResolvedValueOnce([{ id: 1, user_id: 1 }])
+        .mockResolvedValueOnce([{ id: 1, user_id: 1 }]);
+
+      const users = await User.with('posts', 'profile').exec();
+
+      expect(connection.query).toHaveBeenCalledTimes(3);
+      expect(users[0].posts).toEqual([{ id: 1, user_id: 1 }]);
+      expect(users[0].profile).toEqual({ id: 1, user_id: 1 });
+    });
+
+    it('should not query relations if no models are found', async () => {
+      connection.query = jest.fn().mockResolvedValueOnce([]);
+
+      expect(await User.with('posts').exec()).toEqual([]);
+      expect(connection.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject if the relation is not registered', async () => {
+      connection.query = jest.fn().mockResolvedValueOnce([{ id: 1 }]);
+
+      await expect(User.with('comments').exec()).rejects.toThrow(
+        new MegaModelError('Undefined relation in User model: comments')
+      );
+    });
+
+    it('should throw if the relation name is invalid', () => {
+      expect(() => User.with(123)).toThrow(
+        new MegaModelError('Invalid relation: 123')
+      );
+    });
+
+    it('should eager load nested relation paths', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1 }, { id: 2 }])
+        .mockResolvedValueOnce([
+          { id: 10, user_id: 1 },
+          { id: 11, user_id: 2 },
+        ])
+        .mockResolvedValueOnce([{ id: 100, post_id: 10, user_id: 2 }])
+        .mockResolvedValueOnce([{ id: 2 }]);
+
+      const users = await User.with('posts.comments.author').exec();
+
+      expect(connection.query).toHaveBeenCalledTimes(4);
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT posts.* FROM posts WHERE user_id IN (?, ?);',
+        [1, 2]
+      );
+      expect(connection.query).toHaveBeenNthCalledWith(
+        3,
+        'SELECT comments.* FROM comments WHERE post_id IN (?, ?);',
+        [10, 11]
+      );
+      expect(connection.query).toHaveBeenNthCalledWith(
+        4,
+        'SELECT users.* FROM users WHERE id IN (?);',
+        [2]
+      );
+
+      const comment = users[0].posts[0].comments[0];
+      expect(comment).toBeInstanceOf(Comment);
+      expect(comment.author).toBeInstanceOf(User);
+      expect(comment.author.id).toBe(2);
+      expect(users[1].posts[0].comments).toEqual([]);
+    });
+
+    it('should load shared path segments only once', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1 }])
+        .mockResolvedValueOnce([{ id: 10, user_id: 1 }])
+        .mockResolvedValueOnce([{ id: 1, post_id: 10 }])
+        .mockResolvedValueOnce([{ id: 1, name: 'News', post_id: 10 }]);
+
+      const users = await User.with(
+        'posts',
+        'posts.comments',
+        'posts.categories'
+      ).exec();
+
+      expect(connection.query).toHaveBeenCalledTimes(4);
+      expect(users[0].posts[0].comments).toHaveLength(1);
+      expect(users[0].posts[0].categories).toEqual([{ id: 1, name: 'News' }]);
+    });
+
+    it('should apply relation constraints', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1 }, { id: 2 }])
+        .mockResolvedValueOnce([]);
+
+      await User.with({
+        posts: (q) =>
+          q
+            .where((col) => col('status').equal('draft'))
+            .or()
+            .where((col) => col('status').equal('published'))
+            .orderBy('id')
+            .limit(10),
+      }).exec();
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT posts.* FROM posts WHERE (user_id IN (?, ?)) AND (status = ? OR status = ?) ORDER BY id ASC LIMIT 10;',
+        [1, 2, 'draft', 'published']
+      );
+    });
+
+    it('should apply constraints to the last relation of a path', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1 }])
+        .mockResolvedValueOnce([{ id: 10, user_id: 1 }])
+        .mockResolvedValueOnce([]);
+
+      await User.with({
+        'posts.comments': (q) => q.where((col) => col('approved').equal(1)),
+      }).exec();
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT posts.* FROM posts WHERE user_id IN (?);',
+        [1]
+      );
+      expect(connection.query).toHaveBeenNthCalledWith(
+        3,
+        'SELECT comments.* FROM comments WHERE (post_id IN (?)) AND (approved = ?);',
+        [10, 1]
+      );
+    });
+
+    it('should apply constraints without conditions', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1 }])
+        .mockResolvedValueOnce([]);
+
+      await User.with({ posts: (q) => q.limit(5) }).exec();
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT posts.* FROM posts WHERE user_id IN (?) LIMIT 5;',
+        [1]
+      );
+    });
+
+    it('should throw if a relation path or constraint is invalid', () => {
+      expect(() => User.with('posts..comments')).toThrow(
+        new MegaModelError('Invalid relation: posts..comments')
+      );
+
+      expect(() => User.with({ posts: 'invalid' })).toThrow(
+        new MegaModelError('Invalid posts relation constraint')
+      );
+    });
+  });
+
+  describe('constrain', () => {
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn().mockResolvedValue([]);
+
+      User.builder = new MegaBuilder(connection);
+      User.table = 'users';
+    });
+
+    it('should wrap the constraint conditions in parentheses', async () => {
+      await User.select()
+        .where((col) => col('age').greaterThan(18))
+        .constrain((q) =>
+          q
+            .where((col) => col('role').equal('admin'))
+            .or()
+            .where((col) => col('role').equal('editor'))
+        )
+        .exec();
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE (age > ?) AND (role = ? OR role = ?);',
+        [18, 'admin', 'editor']
+      );
+    });
+
+    it('should wrap the OR conditions before adding the constraint', async () => {
+      await User.select()
+        .where((col) => col('role').equal('admin'))
+        .or()
+        .where((col) => col('role').equal('editor'))
+        .constrain((q) => q.where((col) => col('age').greaterThan(18)))
+        .exec();
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE (role = ? OR role = ?) AND (age > ?);',
+        ['admin', 'editor', 18]
+      );
+    });
+
+    it('should not add AND if the query has no conditions', async () => {
+      await User.select()
+        .constrain((q) => q.where((col) => col('age').greaterThan(18)))
+        .exec();
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE (age > ?);',
+        [18]
+      );
+    });
+
+    it('should run the condition callbacks once until the query changes', async () => {
+      const condition = jest.fn((col) => col('age').greaterThan(18));
+      const selector = User.select().constrain((q) => q.where(condition));
+
+      await selector.exec();
+      await selector.exec();
+
+      expect(condition).toHaveBeenCalledTimes(1);
+
+      await selector.limit(5).exec();
+
+      expect(condition).toHaveBeenCalledTimes(2);
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users WHERE (age > ?) LIMIT 5;',
+        [18]
+      );
+    });
+
+    it('should throw if the constraint is not a function', () => {
+      expect(() => User.select().constrain('invalid')).toThrow(
+        new MegaModelError('Invalid constraint: invalid')
+      );
+    });
+  });
+
+  describe('soft deletes', () => {
+    class User extends MegaModel {
+      static table = 'users';
+      static softDeletes = true;
+    }
+
+    let connection: any;
+    let emitter: any;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn().mockResolvedValue([]);
+
+      emitter = new EventEmitter();
+      emitter.emit = jest.fn();
+
+      User.builder = new MegaBuilder(connection);
+      User.softDeletes = true;
+      User.get.emitter = jest.fn().mockReturnValue(emitter);
+      UTC.get.datetime = jest.fn().mockReturnValue('2024-01-01 00:00:00');
+    });
+
+    it('should exclude soft deleted rows by default', async () => {
+      await User.select().exec();
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE users.deleted_at IS NULL;',
+        []
+      );
+    });
+
+    it('should group the conditions before the soft delete scope', async () => {
+      await User.select()
+        .where((col) => col('age').greaterThan(18))
+        .or()
+        .where((col) => col('role').equal('admin'))
+        .exec();
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE (age > ? OR role = ?) AND users.deleted_at IS NULL;',
+        [18, 'admin']
+      );
+    });
+
+    it('should include soft deleted rows using withTrashed', async () => {
+      await User.withTrashed()
+        .where((col) => col('age').greaterThan(18))
+        .exec();
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE (age > ?);',
+        [18]
+      );
+    });
+
+    it('should select only soft deleted rows using onlyTrashed', async () => {
+      await User.onlyTrashed().exec();
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE NOT users.deleted_at IS NULL;',
+        []
+      );
+    });
+
+    it('should soft delete the instance and emit events', async () => {
+      const user: any = new User({ id: 1, name: 'simon', deleted_at: null });
+
+      await user.delete();
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'UPDATE users SET deleted_at = ? WHERE id = ?;',
+        ['2024-01-01 00:00:00', 1]
+      );
+
+      expect(user.deleted_at).toBe('2024-01-01 00:00:00');
+      expect(user.isTrashed()).toBe(true);
+      expect(user.isDirty()).toBe(false);
+      expect(emitter.emit).toHaveBeenCalledWith(DELETE, user);
+      expect(emitter.emit).toHaveBeenCalledWith(DELETED, user);
+    });
+
+    it('should keep the other unsaved changes after delete and restore', async () => {
+      const user: any = new User({ id: 1, name: 'simon', deleted_at: null });
+
+      user.name = 'john';
+      await user.delete();
+
+      expect(user.isDirty('deleted_at')).toBe(false);
+      expect(user.getChanges()).toEqual({ name: 'john' });
+
+      await user.restore();
+
+      expect(user.isDirty('deleted_at')).toBe(false);
+      expect(user.getChanges()).toEqual({ name: 'john' });
+    });
+
+    it('should target the original primary key', async () => {
+      const user: any = new User({ id: 1, deleted_at: null });
+
+      user.id = 5;
+      await user.delete();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'UPDATE users SET deleted_at = ? WHERE id = ?;',
+        ['2024-01-01 00:00:00', 1]
+      );
+
+      await user.restore();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'UPDATE users SET deleted_at = NULL WHERE id = ?;',
+        [1]
+      );
+
+      await user.forceDelete();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'DELETE FROM users WHERE id = ?;',
+        [1]
+      );
+    });
+
+    it('should permanently delete the instance using forceDelete', async () => {
+      const user: any = new User({ id: 1, name: 'simon' });
+
+      await user.forceDelete();
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'DELETE FROM users WHERE id = ?;',
+        [1]
+      );
+
+      expect(emitter.emit).toHaveBeenCalledWith(DELETE, user);
+      expect(emitter.emit).toHaveBeenCalledWith(DELETED, user);
+    });
+
+    it('should restore the instance and emit events', async () => {
+      const user: any = new User({ id: 1, deleted_at: '2024-01-01 00:00:00' });
+
+      await user.restore();
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'UPDATE users SET deleted_at = NULL WHERE id = ?;',
+        [1]
+      );
+
+      expect(user.deleted_at).toBeNull();
+      expect(user.isTrashed()).toBe(false);
+      expect(emitter.emit).toHaveBeenCalledWith(RESTORE, user);
+      expect(emitter.emit).toHaveBeenCalledWith(RESTORED, user);
+    });
+
+    it('should reject restore if soft deletes are disabled', async () => {
+      User.softDeletes = false;
+
+      const user: any = new User({ id: 1 });
+
+      await expect(user.restore()).rejects.toThrow(
+        new MegaModelError('Soft deletes are not enabled in User model')
+      );
+
+      expect(user.isTrashed()).toBe(false);
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+
+    it('should soft delete, force delete and restore rows using where', async () => {
+      await User.where((col) => col('age').lessThan(18)).delete();
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'UPDATE users SET deleted_at = ? WHERE (age < ?) AND deleted_at IS NULL;',
+        ['2024-01-01 00:00:00', 18]
+      );
+
+      await User.where((col) => col('age').lessThan(18)).forceDelete();
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'DELETE FROM users WHERE age < ?;',
+        [18]
+      );
+
+      await User.where((col) => col('age').lessThan(18)).restore();
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'UPDATE users SET deleted_at = NULL WHERE age < ?;',
+        [18]
+      );
+    });
+  });
+
+  describe('rules', () => {
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+    let emitter: any;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn().mockResolvedValue(1);
+
+      emitter = new EventEmitter();
+      emitter.emit = jest.fn();
+
+      User.builder = new MegaBuilder(connection);
+      User.table = 'users';
+      User.timestamps = false;
+      User.get.emitter = jest.fn().mockReturnValue(emitter);
+
+      User.rules = {
+        email: { required: true, type: 'string', pattern: /^\S+@\S+$/ },
+        name: { type: 'string', min: 3, max: 10 },
+        age: { type: 'integer', min: 18 },
+        role: { enum: ['admin', 'user'] },
+      };
+    });
+
+    it('should insert the row if it passes the rules', async () => {
+      const row = { email: 'john@example.com', name: 'john', age: 30 };
+
+      await expect(User.insert(row)).resolves.toBeInstanceOf(User);
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, name, age) VALUES (?, ?, ?);',
+        ['john@example.com', 'john', 30]
+      );
+    });
+
+    it('should reject with the error messages of each invalid column', async () => {
+      const row = { name: 'jo', age: 16.5, role: 'guest' };
+      const error = await User.insert(row).catch((error) => error);
+
+      expect(error).toBeInstanceOf(MegaModelValidationError);
+      expect(error).toBeInstanceOf(MegaModelError);
+      expect(error.message).toBe('Invalid columns: email, name, age, role');
+      expect(error.errors).toEqual({
+        email: ['email is required'],
+        name: ['name must be at least 3 characters'],
+        age: ['age must be of type integer'],
+        role: ['role must be one of: admin, user'],
+      });
+
+      // Nothing is executed
+      expect(connection.query).not.toHaveBeenCalled();
+      expect(emitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('should check the pattern, max length and min value', async () => {
+      const row = { email: 'invalid', name: 'johnathan doe', age: 10 };
+      const error = await User.insert(row).catch((error) => error);
+
+      expect(error.errors).toEqual({
+        email: ['email format is invalid'],
+        name: ['name must be at most 10 characters'],
+        age: ['age must be at least 18'],
+      });
+    });
+
+    it('should run custom async predicates', async () => {
+      const unique = jest.fn((email) =>
+        Promise.resolve(email !== 'taken@example.com')
+      );
+
+      User.rules = {
+        email: { required: true, validate: unique, message: 'email is taken' },
+      };
+
+      const row = { email: 'taken@example.com' };
+      const error = await User.insert(row).catch((error) => error);
+
+      expect(unique).toHaveBeenCalledWith('taken@example.com', row);
+      expect(error.errors).toEqual({ email: ['email is taken'] });
+
+      // Predicates run only if the built-in rules pass
+      unique.mockClear();
+      await expect(User.insert({ name: 'john' })).rejects.toThrow(
+        MegaModelValidationError
+      );
+      expect(unique).not.toHaveBeenCalled();
+    });
+
+    it('should prefix the columns with the row index in insertMany', async () => {
+      const rows = [
+        { email: 'john@example.com', age: 30 },
+        { email: 'jane@example.com', age: 12 },
+      ];
+
+      const error = await User.insertMany(rows).catch((error) => error);
+
+      expect(error).toBeInstanceOf(MegaModelValidationError);
+      expect(error.errors).toEqual({ '1.age': ['age must be at least 18'] });
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+
+    it('should validate only the changed columns on update', async () => {
+      // The stored row misses the required email
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, name: 'john', age: 30 }])
+        .mockResolvedValue(undefined);
+
+      const user = await User.find(1);
+
+      user.age = 31;
+      await user.update();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'UPDATE users SET age = ? WHERE id = ?;',
+        [31, 1]
+      );
+
+      user.age = 17;
+      const error = await user.update().catch((error) => error);
+
+      expect(error.errors).toEqual({ age: ['age must be at least 18'] });
+      expect(connection.query).toHaveBeenCalledTimes(2);
+      expect(user.isDirty('age')).toBe(true);
+    });
+
+    it('should reject if a rule has an invalid type', async () => {
+      User.rules = { age: { type: 'date' } };
+
+      await expect(User.insert({ age: 30 })).rejects.toThrow(
+        new MegaModelError('Invalid age rule type in User model: date')
+      );
+    });
+  });
+
+  describe('mutators', () => {
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn().mockResolvedValue(1);
+
+      User.builder = new MegaBuilder(connection);
+      User.table = 'users';
+      User.timestamps = false;
+      User.mutators = {
+        email: [(email) => email.trim(), (email) => email.toLowerCase()],
+        tags: [(tags) => JSON.stringify(tags)],
+      };
+    });
+
+    it('should mutate the row before insert', async () => {
+      const user = await User.insert({
+        email: ' John@Example.COM ',
+        tags: ['a'],
+      });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, tags) VALUES (?, ?);',
+        ['john@example.com', '["a"]']
+      );
+
+      expect(user.email).toBe('john@example.com');
+    });
+
+    it('should mutate the rows before insertMany', async () => {
+      await User.insertMany([
+        { email: 'John@Example.com', tags: [] },
+        { email: 'Jane@Example.com', tags: ['b'] },
+      ]);
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, tags) VALUES (?, ?), (?, ?);',
+        ['john@example.com', '[]', 'jane@example.com', '["b"]']
+      );
+    });
+
+    it('should mutate the changed values before update', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, email: 'john@example.com' }])
+        .mockResolvedValue(undefined);
+
+      const user = await User.find(1);
+
+      user.email = 'JOHN@example.com';
+      await user.update();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'UPDATE users SET email = ? WHERE id = ?;',
+        ['john@example.com', 1]
+      );
+
+      expect(user.email).toBe('john@example.com');
+      expect(user.isDirty()).toBe(false);
+    });
+
+    it('should mutate the row before Where.update', async () => {
+      await User.where((col) => col('id').equal(1)).update({
+        email: ' JOHN@example.com',
+      });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'UPDATE users SET email = ? WHERE id = ?;',
+        ['john@example.com', 1]
+      );
+    });
+
+    it('should validate the mutated values', async () => {
+      User.rules = { email: { required: true } };
+
+      await expect(User.insert({ email: '  ' })).rejects.toThrow(
+        MegaModelValidationError
+      );
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('casts', () => {
+    class Money {
+      get(value) {
+        return { cents: Number(value) };
+      }
+
+      set(value) {
+        return value.cents;
+      }
+    }
+
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn().mockResolvedValue(1);
+
+      User.builder = new MegaBuilder(connection);
+      User.table = 'users';
+      User.timestamps = false;
+      User.casts = {
+        is_admin: 'boolean',
+        settings: 'json',
+        published_at: 'date',
+        balance: 'decimal',
+        age: 'number',
+        views: 'bigint',
+        price: Money,
+      };
+    });
+
+    it('should cast the values when models are hydrated', async () => {
+      connection.query = jest.fn().mockResolvedValue([
+        {
+          id: 1,
+          is_admin: 1,
+          settings: '{"theme":"dark"}',
+          published_at: '2024-01-01 10:00:00',
+          balance: '10.50',
+          age: '30',
+          views: '9007199254740993',
+          price: '999',
+        },
+        { id: 2, is_admin: 0, settings: null, published_at: null },
+      ]);
+
+      const users = await User.select().exec();
+
+      expect(users[0].is_admin).toBe(true);
+      expect(users[0].settings).toEqual({ theme: 'dark' });
+      expect(users[0].published_at).toEqual(
+        new Date('2024-01-01T10:00:00Z')
+      );
+      expect(users[0].balance).toBe(10.5);
+      expect(users[0].age).toBe(30);
+      expect(users[0].views).toBe(BigInt('9007199254740993'));
+      expect(users[0].price).toEqual({ cents: 999 });
+      expect(users[0].isDirty()).toBe(false);
+
+      // null values are never casted
+      expect(users[1].is_admin).toBe(false);
+      expect(users[1].settings).toBeNull();
+      expect(users[1].published_at).toBeNull();
+    });
+
+    it('should serialize the values before insert', async () => {
+      const user = await User.insert({
+        is_admin: true,
+        settings: { theme: 'dark' },
+        published_at: new Date('2024-01-01T10:00:00Z'),
+        balance: 10.5,
+        views: BigInt(10),
+        price: { cents: 999 },
+      });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (is_admin, settings, published_at, balance, views, price) VALUES (?, ?, ?, ?, ?, ?);',
+        [1, '{"theme":"dark"}', '2024-01-01 10:00:00', '10.5', '10', 999]
+      );
+
+      expect(user.id).toBe(1);
+      expect(user.is_admin).toBe(true);
+      expect(user.settings).toEqual({ theme: 'dark' });
+      expect(user.published_at).toEqual(new Date('2024-01-01T10:00:00Z'));
+      expect(user.views).toBe(BigInt(10));
+      expect(user.price).toEqual({ cents: 999 });
+    });
+
+    it('should serialize the values before insertMany', async () => {
+      await User.insertMany([
+        { is_admin: true, settings: [1] },
+        { is_admin: false, settings: [2] },
+      ]);
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (is_admin, settings) VALUES (?, ?), (?, ?);',
+        [1, '[1]', 0, '[2]']
+      );
+    });
+
+    it('should serialize the changed values before update', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, is_admin: 0, settings: '{}' }])
+        .mockResolvedValue(undefined);
+
+      const user = await User.find(1);
+
+      user.is_admin = true;
+      user.settings.theme = 'dark';
+      await user.update();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'UPDATE users SET is_admin = ?, settings = ? WHERE id = ?;',
+        [1, '{"theme":"dark"}', 1]
+      );
+
+      expect(user.is_admin).toBe(true);
+      expect(user.settings).toEqual({ theme: 'dark' });
+      expect(user.isDirty()).toBe(false);
+    });
+
+    it('should serialize the row before Where.update', async () => {
+      await User.where((col) => col('id').equal(1)).update({
+        is_admin: false,
+      });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'UPDATE users SET is_admin = ? WHERE id = ?;',
+        [0, 1]
+      );
+    });
+
+    it('should reject if a cast is invalid', async () => {
+      User.casts = { settings: 'xml' };
+
+      await expect(User.insert({ settings: '<a/>' })).rejects.toThrow(
+        new MegaModelError('Invalid settings cast in User model: xml')
+      );
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transaction', () => {
+    class User extends (MegaModel as any) {}
+    class Post extends (MegaModel as any) {}
+
+    let connection: any;
+    let shared: any;
+    let other: any;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn().mockResolvedValue(1);
+      connection.beginTransaction = jest.fn(() => Promise.resolve());
+      connection.commit = jest.fn(() => Promise.resolve());
+      connection.rollback = jest.fn(() => Promise.resolve());
+
+      shared = mock.connection();
+      other = mock.connection();
+
+      User.builder = new MegaBuilder(shared);
+      User.pool = mock.pool(connection);
+      User.table = 'users';
+      User.timestamps = false;
+
+      Post.builder = new MegaBuilder(other);
+      Post.table = 'posts';
+      Post.timestamps = false;
+    });
+
+    it('should bind all model operations to the transaction connection', async () => {
+      const result = await User.transaction(async (tx) => {
+        expect(tx.connection).toBe(connection);
+
+        await User.insert({ name: 'john' });
+        await Post.where((col) => col('user_id').equal(1)).delete();
+
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect(connection.query).toHaveBeenNthCalledWith(
+        1,
+        'INSERT INTO users (name) VALUES (?);',
+        ['john']
+      );
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'DELETE FROM posts WHERE user_id = ?;',
+        [1]
+      );
+      expect(other.query).not.toHaveBeenCalled();
+
+      expect(connection.beginTransaction).toHaveBeenCalledTimes(1);
+      expect(connection.commit).toHaveBeenCalledTimes(1);
+      expect(connection.rollback).not.toHaveBeenCalled();
+    });
+
+    it('should not bind operations outside the callback', async () => {
+      await User.transaction(() => undefined);
+      await Post.insert({ title: 'Hello' });
+
+      expect(other.query).toHaveBeenCalledWith(
+        'INSERT INTO posts (title) VALUES (?);',
+        ['Hello']
+      );
+    });
+
+    it('should run on a dedicated connection requested from the pool', async () => {
+      let resume: () => void;
+      const paused = new Promise<void>((resolve) => (resume = resolve));
+
+      const transaction = User.transaction(async () => {
+        await paused;
+        await User.insert({ name: 'john' });
+      });
+
+      // A concurrent query outside the callback uses the shared connection
+      await User.insert({ name: 'jane' });
+      resume();
+      await transaction;
+
+      expect(User.pool.request).toHaveBeenCalledTimes(1);
+      expect(shared.query).toHaveBeenCalledWith(
+        'INSERT INTO users (name) VALUES (?);',
+        ['jane']
+      );
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (name) VALUES (?);',
+        ['john']
+      );
+    });
+
+    it('should release the connection after commit and rollback', async () => {
+      await User.transaction(() => undefined);
+      expect(connection.release).toHaveBeenCalledTimes(1);
+
+      await expect(
+        User.transaction(() => Promise.reject(new Error('Ops')))
+      ).rejects.toThrow('Ops');
+      expect(connection.release).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject if the model has no pool', async () => {
+      User.pool = undefined;
+
+      await expect(User.transaction(() => undefined)).rejects.toThrow(
+        new MegaModelError('Invalid pool in User model: undefined')
+      );
+
+      expect(connection.beginTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should rollback if the callback rejects or throws', async () => {
+      await expect(
+        User.transaction(async () => {
+          await User.insert({ name: 'john' });
+          throw new Error('Ops');
+        })
+      ).rejects.toThrow('Ops');
+
+      await expect(
+        User.transaction(() => {
+          throw new Error('Sync');
+        })
+      ).rejects.toThrow('Sync');
+
+      expect(connection.rollback).toHaveBeenCalledTimes(2);
+      expect(connection.commit).not.toHaveBeenCalled();
+    });
+
+    it('should use savepoints for nested transactions', async () => {
+      await User.transaction(async () => {
+        await User.insert({ name: 'a' });
+
+        await expect(
+          User.transaction(async () => {
+            await User.insert({ name: 'b' });
+            throw new Error('Nested');
+          })
+        ).rejects.toThrow('Nested');
+
+        await Post.transaction(() => Post.insert({ title: 'c' }));
+      });
+
+      expect(connection.query.mock.calls.map((call) => call[0])).toEqual([
+        'INSERT INTO users (name) VALUES (?);',
+        'SAVEPOINT savepoint_1;',
+        'INSERT INTO users (name) VALUES (?);',
+        'ROLLBACK TO SAVEPOINT savepoint_1;',
+        'SAVEPOINT savepoint_2;',
+        'INSERT INTO posts (title) VALUES (?);',
+        'RELEASE SAVEPOINT savepoint_2;',
+      ]);
+
+      expect(connection.beginTransaction).toHaveBeenCalledTimes(1);
+      expect(connection.commit).toHaveBeenCalledTimes(1);
+      expect(connection.rollback).not.toHaveBeenCalled();
+      expect(other.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject if the callback is not a function', async () => {
+      await expect(User.transaction(undefined)).rejects.toThrow(
+        new MegaModelError('Invalid transaction callback: undefined')
+      );
+
+      expect(connection.beginTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('paginate', () => {
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ count: '12' }])
+        .mockResolvedValueOnce([{ id: 6 }, { id: 7 }]);
+
+      User.builder = new MegaBuilder(connection);
+      User.table = 'users';
+      User.softDeletes = false;
+    });
+
+    it('should resolve with the page models and pagination details', async () => {
+      const result = await User.paginate(2, 5);
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        1,
+        'SELECT COUNT(*) AS count FROM users;',
+        []
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT users.* FROM users LIMIT 5 OFFSET 5;',
+        []
+      );
+
+      expect(result.data).toHaveLength(2);
+      expect(result.data[0]).toBeInstanceOf(User);
+      expect(result).toMatchObject({
+        total: 12,
+        page: 2,
+        perPage: 5,
+        lastPage: 3,
+      });
+    });
+
+    it('should count using the same conditions without ordering', async () => {
+      await User.select()
+        .where((col) => col('age').greaterThan(18))
+        .orderBy('id')
+        .page(1);
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        1,
+        'SELECT COUNT(*) AS count FROM users WHERE age > ?;',
+        [18]
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT users.* FROM users WHERE age > ? ORDER BY id ASC LIMIT 10 OFFSET 0;',
+        [18]
+      );
+    });
+
+    it('should count the groups of a grouped query', async () => {
+      await User.select()
+        .col('role')
+        .groupBy('role')
+        .page(2, 5);
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        1,
+        'SELECT COUNT(*) AS count FROM (SELECT role FROM users GROUP BY role) AS t;',
+        []
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT role FROM users GROUP BY role LIMIT 5 OFFSET 5;',
+        []
+      );
+    });
+
+    it('should paginate soft deletable models and where conditions', async () => {
+      User.softDeletes = true;
+
+      await User.where((col) => col('age').greaterThan(18)).paginate(1, 20);
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        1,
+        'SELECT COUNT(*) AS count FROM users WHERE (age > ?) AND users.deleted_at IS NULL;',
+        [18]
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT users.* FROM users WHERE (age > ?) AND users.deleted_at IS NULL LIMIT 20 OFFSET 0;',
+        [18]
+      );
+    });
+
+    it('should leave the paginated query untouched', async () => {
+      const selector = User.select().where((col) => col('age').greaterThan(18));
+
+      connection.query.mockResolvedValue([]);
+
+      await selector.page(2, 5);
+      await selector.exec();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users WHERE age > ?;',
+        [18]
+      );
+    });
+
+    it('should resolve with the same details as Select.paginate()', async () => {
+      const result = await User.select().paginate(2, 5);
+
+      expect(result.result).toHaveLength(2);
+      expect(result.result[0]).toBeInstanceOf(User);
+      expect(result.page).toEqual({ current: 2, prev: 1, next: 3, items: 5 });
+      expect(result.total).toEqual({ pages: 3, items: 12 });
+    });
+
+    it('should fallback to the first page and at least one last page', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ count: 0 }])
+        .mockResolvedValueOnce([]);
+
+      const result = await User.paginate(-1, 'invalid' as any);
+
+      expect(result).toEqual({
+        data: [],
+        total: 0,
+        page: 1,
+        perPage: 10,
+        lastPage: 1,
+      });
+    });
+  });
+
+  describe('cursorPaginate', () => {
+    class User extends (MegaModel as any) {}
+
+    const encode = (values: Array<any>) =>
+      Buffer.from(JSON.stringify(values)).toString('base64url');
+
+    let connection: any;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest
+        .fn()
+        .mockResolvedValue([{ id: 1 }, { id: 2 }, { id: 3 }]);
+
+      User.builder = new MegaBuilder(connection);
+      User.table = 'users';
+      User.softDeletes = false;
+    });
+
+    it('should order by the primary key and resolve with the next cursor', async () => {
+      const result = await User.cursorPaginate({ limit: 2 });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users ORDER BY users.id ASC LIMIT 3;',
+        []
+      );
+
+      expect(result.data).toHaveLength(2);
+      expect(result.data[0]).toBeInstanceOf(User);
+      expect(result.next).toBe(encode([2]));
+      expect(result.prev).toBeUndefined();
+    });
+
+    it('should resolve with the models after the cursor', async () => {
+      connection.query.mockResolvedValue([{ id: 3 }, { id: 4 }]);
+
+      const result = await User.cursorPaginate({
+        after: encode([2]),
+        limit: 2,
+      });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE (users.id > ?) ORDER BY users.id ASC LIMIT 3;',
+        [2]
+      );
+
+      expect(result.data.map((user: any) => user.id)).toEqual([3, 4]);
+      expect(result.next).toBeUndefined();
+      expect(result.prev).toBe(encode([3]));
+    });
+
+    it('should resolve with the models before the cursor in order', async () => {
+      connection.query.mockResolvedValue([{ id: 4 }, { id: 3 }, { id: 2 }]);
+
+      const result = await User.cursorPaginate({
+        before: encode([5]),
+        limit: 2,
+      });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE (users.id < ?) ORDER BY users.id DESC LIMIT 3;',
+        [5]
+      );
+
+      expect(result.data.map((user: any) => user.id)).toEqual([3, 4]);
+      expect(result.next).toBe(encode([4]));
+      expect(result.prev).toBe(encode([3]));
+    });
+
+    it('should page by a composite sort key combined with the conditions', async () => {
+      connection.query.mockResolvedValue([
+        { id: 7, created_at: '2024-01-01 00:00:00' },
+      ]);
+
+      const result = await User.where((col) => col('age').greaterThan(18))
+        .cursorPaginate({
+          after: encode(['2024-01-02 00:00:00', 9]),
+          orderBy: { created_at: 'DESC' },
+        });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE (age > ?) AND (users.created_at < ? OR (users.created_at = ? AND users.id < ?)) ORDER BY users.created_at DESC, users.id DESC LIMIT 11;',
+        [18, '2024-01-02 00:00:00', '2024-01-02 00:00:00', 9]
+      );
+
+      expect(result.prev).toBe(encode(['2024-01-01 00:00:00', 7]));
+    });
+
+    it('should keep the OR conditions apart from the cursor conditions', async () => {
+      await User.select()
+        .where((col) => col('role').equal('admin'))
+        .or()
+        .where((col) => col('role').equal('editor'))
+        .cursorPaginate({ after: encode([2]), limit: 2 });
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users WHERE (role = ? OR role = ?) AND (users.id > ?) ORDER BY users.id ASC LIMIT 3;',
+        ['admin', 'editor', 2]
+      );
+
+      await User.where((col) => col('role').equal('admin'))
+        .orWhere((col) => col('role').equal('editor'))
+        .cursorPaginate({ after: encode([2]), limit: 2 });
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users WHERE ((role = ?) OR (role = ?)) AND (users.id > ?) ORDER BY users.id ASC LIMIT 3;',
+        ['admin', 'editor', 2]
+      );
+    });
+
+    it('should leave the paginated query untouched', async () => {
+      const selector = User.select().orderBy('name');
+
+      await selector.cursorPaginate({ after: encode([2]), limit: 2 });
+      await selector.exec();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users ORDER BY name ASC;',
+        []
+      );
+    });
+
+    it('should reject invalid cursors and options', async () => {
+      await expect(User.cursorPaginate({ after: 'invalid' })).rejects.toThrow(
+        'Invalid cursor: invalid'
+      );
+
+      await expect(
+        User.cursorPaginate({ after: encode(['a', 1]) })
+      ).rejects.toThrow(MegaModelError);
+
+      await expect(
+        User.cursorPaginate({ orderBy: { id: 'UP' as any } })
+      ).rejects.toThrow('Invalid cursor orderBy');
+
+      await expect(
+        User.cursorPaginate({ after: encode([1]), before: encode([5]) })
+      ).rejects.toThrow('Cannot paginate both after and before a cursor');
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('chunk', () => {
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1 }, { id: 2 }])
+        .mockResolvedValueOnce([{ id: 3 }, { id: 4 }])
+        .mockResolvedValueOnce([{ id: 5 }]);
+
+      User.builder = new MegaBuilder(connection);
+      User.table = 'users';
+      User.primaryKey = undefined;
+      User.softDeletes = false;
+    });
+
+    it('should pass each batch ordered by the primary key', async () => {
+      const batches = [];
+
+      await User.chunk(2, (users) => {
+        batches.push(users.map((user: any) => user.id));
+      });
+
+      expect(batches).toEqual([[1, 2], [3, 4], [5]]);
+      expect(connection.query).toHaveBeenCalledTimes(3);
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        1,
+        'SELECT users.* FROM users ORDER BY users.id ASC LIMIT 2;',
+        []
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT users.* FROM users WHERE (users.id > ?) ORDER BY users.id ASC LIMIT 2;',
+        [2]
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        3,
+        'SELECT users.* FROM users WHERE (users.id > ?) ORDER BY users.id ASC LIMIT 2;',
+        [4]
+      );
+    });
+
+    it('should stop when the callback returns false', async () => {
+      const callback = jest.fn().mockResolvedValue(false);
+
+      await User.chunk(2, callback);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(connection.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass each model of the query conditions', async () => {
+      User.softDeletes = true;
+
+      const ids = [];
+
+      await User.select()
+        .where((col) => col('age').greaterThan(18))
+        .orderBy('name')
+        .each((user) => {
+          ids.push(user.id);
+        }, 2);
+
+      expect(ids).toEqual([1, 2, 3, 4, 5]);
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        1,
+        'SELECT users.* FROM users WHERE (age > ?) AND users.deleted_at IS NULL ORDER BY users.id ASC LIMIT 2;',
+        [18]
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        3,
+        'SELECT users.* FROM users WHERE (age > ?) AND (users.id > ?) AND users.deleted_at IS NULL ORDER BY users.id ASC LIMIT 2;',
+        [18, 4]
+      );
+    });
+
+    it('should stop each when the callback returns false', async () => {
+      const callback = jest
+        .fn()
+        .mockReturnValueOnce(undefined)
+        .mockReturnValueOnce(false);
+
+      await User.each(callback, 2);
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(connection.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should iterate the models using for await', async () => {
+      const ids = [];
+
+      for await (const user of User.cursor(2)) ids.push(user.id);
+
+      expect(ids).toEqual([1, 2, 3, 4, 5]);
+      expect(connection.query).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep the OR conditions apart from the batch condition', async () => {
+      const query = User.select()
+        .where((col) => col('role').equal('admin'))
+        .or()
+        .where((col) => col('role').equal('editor'));
+
+      await query.chunk(2, () => {});
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT users.* FROM users WHERE (role = ? OR role = ?) AND (users.id > ?) ORDER BY users.id ASC LIMIT 2;',
+        ['admin', 'editor', 2]
+      );
+
+      // The query itself is left untouched
+      connection.query.mockResolvedValue([]);
+      await query.exec();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users WHERE role = ? OR role = ?;',
+        ['admin', 'editor']
+      );
+    });
+
+    it('should bind the HAVING values after the batch condition', async () => {
+      await User.select()
+        .groupBy('id')
+        .having((col) => col('COUNT(*)').greaterThan(0))
+        .chunk(2, () => {});
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT users.* FROM users WHERE (users.id > ?) GROUP BY id HAVING COUNT(*) > ? ORDER BY users.id ASC LIMIT 2;',
+        [2, 0]
+      );
+    });
+
+    it('should reject composite keys and unions', async () => {
+      User.primaryKey = ['user_id', 'role_id'];
+
+      await expect(User.chunk(2, () => {})).rejects.toThrow(
+        'Unsupported composite primary key in User model: user_id, role_id'
+      );
+
+      User.primaryKey = 'id';
+
+      await expect(
+        User.select()
+          .union((select) => select.from('admins'))
+          .chunk(2, () => {})
+      ).rejects.toThrow('Cannot chunk a query with UNION clauses in User model');
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid sizes and callbacks', async () => {
+      await expect(User.chunk(0, () => {})).rejects.toThrow(
+        'Invalid chunk size: 0'
+      );
+
+      await expect(User.chunk(2, 'invalid')).rejects.toThrow(
+        'Invalid chunk callback: invalid'
+      );
+
+      await expect(User.each('invalid')).rejects.toThrow(
+        'Invalid each callback: invalid'
+      );
+
+      await expect(User.cursor(-1).next()).rejects.toThrow(MegaModelError);
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('aggregates', () => {
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn();
+
+      User.builder = new MegaBuilder(connection);
+      User.table = 'users';
+      User.softDeletes = false;
+      User.casts = undefined;
+    });
+
+    it('should count the rows ignoring the ordering and limit', async () => {
+      connection.query.mockResolvedValue([{ count: '5' }]);
+
+      const query = User.select().orderBy('id').limit(2);
+
+      expect(await query.count()).toBe(5);
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT COUNT(*) AS count FROM users;',
+        []
+      );
+
+      // The query itself is left untouched
+      connection.query.mockResolvedValue([]);
+      await query.exec();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users ORDER BY id ASC LIMIT 2;',
+        []
+      );
+    });
+
+    it('should count grouped and distinct rows using a subquery', async () => {
+      connection.query.mockResolvedValue([{ count: 3 }]);
+
+      const grouped = User.select()
+        .col('role')
+        .where((col) => col('age').greaterThan(18))
+        .groupBy('role')
+        .having((col) => col('COUNT(*)').greaterThan(2))
+        .orderBy('role')
+        .limit(1);
+
+      expect(await grouped.count()).toBe(3);
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT COUNT(*) AS count FROM (SELECT role FROM users WHERE age > ? GROUP BY role HAVING COUNT(*) > ?) AS t;',
+        [18, 2]
+      );
+
+      await User.select().col('email').distinct().count();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT COUNT(*) AS count FROM (SELECT DISTINCT email FROM users) AS t;',
+        []
+      );
+    });
+
+    it('should aggregate grouped and distinct rows using a subquery', async () => {
+      connection.query.mockResolvedValue([{ sum: '60' }]);
+
+      const sum = await User.select()
+        .col('role', 'MAX(users.age) AS age')
+        .groupBy('role')
+        .sum('users.age');
+
+      expect(sum).toBe(60);
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT SUM(age) AS sum FROM (SELECT role, MAX(users.age) AS age FROM users GROUP BY role) AS t;',
+        []
+      );
+
+      connection.query.mockResolvedValue([{ avg: '30' }]);
+
+      await User.select().col('age').distinct().avg('age');
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT AVG(age) AS avg FROM (SELECT DISTINCT age FROM users) AS t;',
+        []
+      );
+    });
+
+    it('should aggregate the rows matching the where conditions', async () => {
+      User.softDeletes = true;
+      connection.query.mockResolvedValue([{ sum: '150.5' }]);
+
+      const sum = await User.where((col) => col('age').greaterThan(18)).sum(
+        'balance'
+      );
+
+      expect(sum).toBe(150.5);
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT SUM(balance) AS sum FROM users WHERE (age > ?) AND users.deleted_at IS NULL;',
+        [18]
+      );
+    });
+
+    it('should resolve with numbers or null when no rows match', async () => {
+      connection.query
+        .mockResolvedValueOnce([{ sum: null }])
+        .mockResolvedValueOnce([{ avg: null }])
+        .mockResolvedValueOnce([{ avg: '20.5000' }])
+        .mockResolvedValueOnce([{ max: null }]);
+
+      expect(await User.sum('age')).toBe(0);
+      expect(await User.avg('age')).toBeNull();
+      expect(await User.avg('age')).toBe(20.5);
+      expect(await User.max('age')).toBeNull();
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT AVG(age) AS avg FROM users;',
+        []
+      );
+    });
+
+    it('should cast the min and max values', async () => {
+      User.casts = { created_at: 'date' };
+      connection.query.mockResolvedValue([{ min: '2024-01-01 00:00:00' }]);
+
+      const min = await User.min('created_at');
+
+      expect(min).toEqual(new Date('2024-01-01T00:00:00Z'));
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT MIN(created_at) AS min FROM users;',
+        []
+      );
+    });
+
+    it('should check whether a row exists', async () => {
+      connection.query
+        .mockResolvedValueOnce([{ found: 1 }])
+        .mockResolvedValueOnce([]);
+
+      expect(await User.exists()).toBe(true);
+      expect(await User.where((col) => col('id').equal(9)).exists()).toBe(
+        false
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        1,
+        'SELECT 1 AS found FROM users LIMIT 1;',
+        []
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT 1 AS found FROM users WHERE id = ? LIMIT 1;',
+        [9]
+      );
+    });
+
+    it('should reject invalid columns', async () => {
+      await expect(User.sum('')).rejects.toThrow('Invalid SUM column: ');
+      await expect(User.max(123 as any)).rejects.toThrow(MegaModelError);
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('upsert', () => {
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+
+    const rows = () => [
+      { email: 'user1@example.com', name: 'User 1' },
+      { email: 'user2@example.com', name: 'User 2' },
+    ];
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn(() => Promise.resolve(undefined));
+
+      User.builder = new MegaBuilder(connection);
+      User.table = 'users';
+      User.timestamps = false;
+    });
+
+    it('should upsert using ON DUPLICATE KEY UPDATE in MySQL', async () => {
+      const result = await User.upsert(rows(), { conflict: ['email'] });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, name) VALUES (?, ?), (?, ?) ON DUPLICATE KEY UPDATE name = VALUES(name);',
+        ['user1@example.com', 'User 1', 'user2@example.com', 'User 2']
+      );
+
+      expect(result).toHaveLength(2);
+      expect(result[0]).toBeInstanceOf(User);
+      expect(result[0].id).toBeUndefined();
+      expect(result[1].name).toBe('User 2');
+    });
+
+    it('should upsert using ON CONFLICT and resolve with primary keys in PostgreSQL', async () => {
+      connection.driver = mock.pg();
+      connection.query = jest.fn(() => Promise.resolve([{ id: 1 }, { id: 2 }]));
+
+      const result = await User.upsert(rows(), { conflict: ['email'] });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, name) VALUES (?, ?), (?, ?) ON CONFLICT (email) DO UPDATE SET name = EXCLUDED.name RETURNING id;',
+        ['user1@example.com', 'User 1', 'user2@example.com', 'User 2']
+      );
+
+      expect(result.map((user) => user.id)).toEqual([1, 2]);
+    });
+
+    it('should upsert using ON CONFLICT without RETURNING in SQLite', async () => {
+      connection.driver = { id: Symbol('SQLite') };
+
+      await User.upsert([rows()[0]], { conflict: ['email'], update: [] });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, name) VALUES (?, ?) ON CONFLICT (email) DO UPDATE SET email = EXCLUDED.email;',
+        ['user1@example.com', 'User 1']
+      );
+    });
+
+    it('should set both timestamps and only update updated_at', async () => {
+      User.timestamps = true;
+      UTC.get.datetime = jest.fn().mockReturnValue('2024-11-16 12:00:00');
+
+      await User.upsert(rows(), {
+        conflict: ['email'],
+        update: ['name', 'created_at'],
+      });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, name, created_at, updated_at) VALUES (?, ?, ?, ?), (?, ?, ?, ?) ON DUPLICATE KEY UPDATE name = VALUES(name), updated_at = VALUES(updated_at);',
+        [
+          'user1@example.com',
+          'User 1',
+          '2024-11-16 12:00:00',
+          '2024-11-16 12:00:00',
+          'user2@example.com',
+          'User 2',
+          '2024-11-16 12:00:00',
+          '2024-11-16 12:00:00',
+        ]
+      );
+    });
+
+    it('should reject invalid rows and options', async () => {
+      await expect(User.upsert([], { conflict: ['email'] })).rejects.toThrow(
+        'Invalid rows'
+      );
+
+      await expect(User.upsert(rows(), {} as any)).rejects.toThrow(
+        'Invalid upsert conflict: undefined'
+      );
+
+      await expect(
+        User.upsert(rows(), { conflict: ['email'], update: 'name' as any })
+      ).rejects.toThrow('Invalid upsert update: name');
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject rows that miss a column of the other rows', async () => {
+      await expect(
+        User.upsert([{ email: 'user1@example.com' }, rows()[1]], {
+          conflict: ['email'],
+        })
+      ).rejects.toThrow(new MegaModelError('Missing upsert column: 0.name'));
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+
+    it('should emit the UPSERT and UPSERTED events', async () => {
+      const emitter = new EventEmitter();
+      emitter.emit = jest.fn();
+      User.get.emitter = jest.fn().mockReturnValue(emitter);
+
+      const result = await User.upsert(rows(), { conflict: ['email'] });
+
+      expect(emitter.emit).toHaveBeenCalledTimes(2);
+      expect(emitter.emit).toHaveBeenNthCalledWith(1, UPSERT, [
+        { email: 'user1@example.com', name: 'User 1' },
+        { email: 'user2@example.com', name: 'User 2' },
+      ]);
+      expect(emitter.emit).toHaveBeenNthCalledWith(2, UPSERTED, result);
+    });
+  });
+
+  describe('firstOrCreate', () => {
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+    let emitter: EventEmitter;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn();
+      connection.beginTransaction = jest.fn(() => Promise.resolve());
+      connection.commit = jest.fn(() => Promise.resolve());
+      connection.rollback = jest.fn(() => Promise.resolve());
+
+      emitter = new EventEmitter();
+      emitter.emit = jest.fn();
+
+      User.builder = new MegaBuilder(connection);
+      User.pool = mock.pool(connection);
+      User.table = 'users';
+      User.timestamps = false;
+      User.get.emitter = jest.fn().mockReturnValue(emitter);
+    });
+
+    it('should resolve with the first matching model', async () => {
+      connection.query.mockResolvedValueOnce([{ id: 1, email: 'a@b.c' }]);
+
+      const user = await User.firstOrCreate(
+        { email: 'a@b.c', deleted: null },
+        { name: 'john' }
+      );
+
+      expect(user).toBeInstanceOf(User);
+      expect(user.id).toBe(1);
+      expect(connection.query).toHaveBeenCalledTimes(1);
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE email = ? AND deleted IS NULL LIMIT 1;',
+        ['a@b.c']
+      );
+    });
+
+    it('should insert the match and extra values if no model matches', async () => {
+      connection.query.mockResolvedValueOnce([]).mockResolvedValueOnce(5);
+
+      const user = await User.firstOrCreate(
+        { email: 'a@b.c' },
+        { name: 'john' }
+      );
+
+      expect(user.id).toBe(5);
+      expect(user.name).toBe('john');
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'INSERT INTO users (email, name) VALUES (?, ?);',
+        ['a@b.c', 'john']
+      );
+
+      expect(emitter.emit).toHaveBeenCalledWith(INSERT, expect.any(Object));
+      expect(emitter.emit).toHaveBeenCalledWith(INSERTED, user);
+    });
+
+    it('should resolve with a new unsaved instance using firstOrNew', async () => {
+      connection.query.mockResolvedValueOnce([]);
+
+      const user = await User.firstOrNew({ email: 'a@b.c' }, { name: 'john' });
+
+      expect(user).toBeInstanceOf(User);
+      expect(user.id).toBeUndefined();
+      expect(user.email).toBe('a@b.c');
+      expect(connection.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should update the matching model using updateOrCreate', async () => {
+      connection.query
+        .mockResolvedValueOnce([{ id: 1, email: 'a@b.c', name: 'john' }])
+        .mockResolvedValueOnce(undefined);
+
+      const user = await User.updateOrCreate(
+        { email: 'a@b.c' },
+        { name: 'jane' }
+      );
+
+      expect(user.name).toBe('jane');
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'UPDATE users SET name = ? WHERE id = ?;',
+        ['jane', 1]
+      );
+
+      expect(emitter.emit).toHaveBeenCalledWith(UPDATED, user);
+    });
+
+    it('should insert using updateOrCreate if no model matches', async () => {
+      connection.query.mockResolvedValueOnce([]).mockResolvedValueOnce(2);
+
+      const user = await User.updateOrCreate(
+        { email: 'a@b.c' },
+        { name: 'jane' }
+      );
+
+      expect(user.id).toBe(2);
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'INSERT INTO users (email, name) VALUES (?, ?);',
+        ['a@b.c', 'jane']
+      );
+    });
+
+    it('should lock the matching row inside a transaction', async () => {
+      connection.query
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(3)
+        .mockResolvedValueOnce(undefined);
+
+      const user = await User.firstOrCreate(
+        { email: 'a@b.c' },
+        {},
+        { lock: true }
+      );
+
+      expect(user.id).toBe(3);
+      expect(connection.beginTransaction).toHaveBeenCalledTimes(1);
+      expect(connection.commit).toHaveBeenCalledTimes(1);
+      expect(connection.query).toHaveBeenNthCalledWith(
+        1,
+        'SELECT users.* FROM users WHERE email = ? LIMIT 1 FOR UPDATE;',
+        ['a@b.c']
+      );
+
+      // The insert runs in a savepoint, so a failed insert keeps the transaction usable
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SAVEPOINT savepoint_1;'
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        3,
+        'INSERT INTO users (email) VALUES (?);',
+        ['a@b.c']
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        4,
+        'RELEASE SAVEPOINT savepoint_1;'
+      );
+      expect(connection.query).toHaveBeenCalledTimes(4);
+    });
+
+    it('should select the row inserted by a concurrent call', async () => {
+      connection.query
+        .mockResolvedValueOnce([])
+        .mockRejectedValueOnce(new Error('Duplicate entry'))
+        .mockResolvedValueOnce([{ id: 9, email: 'a@b.c', name: 'john' }])
+        .mockResolvedValueOnce(undefined);
+
+      const user = await User.updateOrCreate(
+        { email: 'a@b.c' },
+        { name: 'jane' }
+      );
+
+      expect(user.id).toBe(9);
+      expect(connection.query).toHaveBeenNthCalledWith(
+        3,
+        'SELECT users.* FROM users WHERE email = ? LIMIT 1;',
+        ['a@b.c']
+      );
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'UPDATE users SET name = ? WHERE id = ?;',
+        ['jane', 9]
+      );
+    });
+
+    it('should reject with the insert error if no row is found afterwards', async () => {
+      connection.query
+        .mockResolvedValueOnce([])
+        .mockRejectedValueOnce(new Error('Connection lost'))
+        .mockResolvedValueOnce([]);
+
+      await expect(User.firstOrCreate({ email: 'a@b.c' })).rejects.toThrow(
+        'Connection lost'
+      );
+
+      expect(connection.query).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject invalid match and values', async () => {
+      await expect(User.firstOrCreate({})).rejects.toThrow('Invalid match');
+      await expect(User.firstOrNew('email')).rejects.toThrow('Invalid match');
+      await expect(
+        User.updateOrCreate({ email: 'a@b.c' }, 'name')
+      ).rejects.toThrow('Invalid row: name');
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateMany', () => {
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+    let emitter: EventEmitter;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn(() => Promise.resolve());
+
+      emitter = new EventEmitter();
+      emitter.emit = jest.fn();
+
+      User.builder = new MegaBuilder(connection);
+      User.table = 'users';
+      User.timestamps = false;
+      User.ignore = undefined;
+      User.get.emitter = jest.fn().mockReturnValue(emitter);
+    });
+
+    it('should update the changed columns of many models in one statement', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([
+          { id: 1, name: 'john', age: 20 },
+          { id: 2, name: 'jane', age: 30 },
+          { id: 3, name: 'joe', age: 40 },
+        ])
+        .mockResolvedValueOnce(undefined);
+
+      const users = await User.select().exec();
+
+      users[0].name = 'John';
+      users[0].age = 21;
+      users[1].age = null;
+
+      await User.updateMany(users);
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'UPDATE users SET name = CASE id WHEN ? THEN ? ELSE name END, age = CASE id WHEN ? THEN ? WHEN ? THEN NULL ELSE age END WHERE id IN (?, ?);',
+        [1, 'John', 1, 21, 2, 1, 2]
+      );
+
+      expect(users[0].isDirty()).toBe(false);
+      expect(emitter.emit).toHaveBeenCalledWith(UPDATE_MANY, [
+        { name: 'John', age: 21 },
+        { age: null },
+      ]);
+
+      expect(emitter.emit).toHaveBeenCalledWith(UPDATED_MANY, [
+        users[0],
+        users[1],
+      ]);
+    });
+
+    it('should update rows keyed by their primary key', async () => {
+      User.timestamps = true;
+      User.ignore = ['full_name'];
+      UTC.get.datetime = jest.fn().mockReturnValue('2024-11-16 12:00:00');
+
+      await User.updateMany([
+        { id: 1, name: 'john', full_name: 'John Doe' },
+        { id: 2, name: 'jane' },
+      ]);
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'UPDATE users SET name = CASE id WHEN ? THEN ? WHEN ? THEN ? ELSE name END, updated_at = CASE id WHEN ? THEN ? WHEN ? THEN ? ELSE updated_at END WHERE id IN (?, ?);',
+        [
+          1,
+          'john',
+          2,
+          'jane',
+          1,
+          '2024-11-16 12:00:00',
+          2,
+          '2024-11-16 12:00:00',
+          1,
+          2,
+        ]
+      );
+    });
+
+    it('should skip the update if nothing has changed', async () => {
+      connection.query = jest.fn().mockResolvedValueOnce([{ id: 1 }]);
+
+      const users = await User.select().exec();
+
+      await User.updateMany(users);
+
+      expect(connection.query).toHaveBeenCalledTimes(1);
+      expect(emitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid items', async () => {
+      await expect(User.updateMany([])).rejects.toThrow('Invalid rows');
+      await expect(User.updateMany([{ name: 'john' }])).rejects.toThrow(
+        'Invalid id value: undefined'
+      );
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject models with a composite primary key before any query', async () => {
+      User.primaryKey = ['tenant_id', 'id'];
+
+      await expect(
+        User.updateMany([{ tenant_id: 1, id: 2, name: 'john' }])
+      ).rejects.toThrow(
+        new MegaModelError(
+          'Unsupported composite primary key in User model: tenant_id, id'
+        )
+      );
+
+      User.primaryKey = undefined;
+
+      expect(emitter.emit).not.toHaveBeenCalled();
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('increment', () => {
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+    let emitter: EventEmitter;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn(() => Promise.resolve());
+
+      emitter = new EventEmitter();
+      emitter.emit = jest.fn();
+
+      User.builder = new MegaBuilder(connection);
+      User.table = 'users';
+      User.timestamps = false;
+      User.get.emitter = jest.fn().mockReturnValue(emitter);
+    });
+
+    it('should increment the column and refresh the instance value', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, views: 5 }])
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce([{ views: 8 }]);
+
+      const user = await User.find(1);
+
+      await user.increment('views', 2);
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'UPDATE users SET views = views + ? WHERE id = ?;',
+        [2, 1]
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        3,
+        'SELECT views FROM users WHERE id = ?;',
+        [1]
+      );
+
+      expect(user.views).toBe(8);
+      expect(user.isDirty()).toBe(false);
+      expect(emitter.emit).toHaveBeenCalledWith(UPDATE, {});
+      expect(emitter.emit).toHaveBeenCalledWith(UPDATED, user);
+    });
+
+    it('should decrement the column with extra values and timestamps', async () => {
+      User.timestamps = true;
+      UTC.get.datetime = jest.fn().mockReturnValue('2024-11-16 12:00:00');
+
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, stock: 5 }])
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce([{ stock: 4 }]);
+
+      const user = await User.find(1);
+
+      await user.decrement('stock', 1, { status: 'sold' });
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'UPDATE users SET stock = stock - ?, status = ?, updated_at = ? WHERE id = ?;',
+        [1, 'sold', '2024-11-16 12:00:00', 1]
+      );
+
+      expect(user.stock).toBe(4);
+      expect(user.status).toBe('sold');
+      expect(user.updated_at).toBe('2024-11-16 12:00:00');
+    });
+
+    it('should return the fresh value in PostgreSQL', async () => {
+      connection.driver = mock.pg();
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, views: 5 }])
+        .mockResolvedValueOnce([{ views: 9 }]);
+
+      const user = await User.find(1);
+
+      await user.increment('views');
+
+      expect(connection.query).toHaveBeenCalledTimes(2);
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'UPDATE users SET views = views + ? WHERE id = ? RETURNING views;',
+        [1, 1]
+      );
+
+      expect(user.views).toBe(9);
+    });
+
+    it('should keep the other unsaved changes', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, views: 5, name: 'john' }])
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce([{ views: 6 }]);
+
+      const user = await User.find(1);
+
+      user.name = 'jane';
+      await user.increment('views');
+
+      expect(user.views).toBe(6);
+      expect(user.getChanges()).toEqual({ name: 'jane' });
+      expect(user.getOriginal('views')).toBe(6);
+    });
+
+    it('should increment the rows matching the where conditions', async () => {
+      await User.where((col) => col('id').in(1, 2)).increment('views');
+
+      expect(connection.query).toHaveBeenCalledTimes(1);
+      expect(connection.query).toHaveBeenCalledWith(
+        'UPDATE users SET views = views + ? WHERE id IN (?, ?);',
+        [1, 1, 2]
+      );
+    });
+
+    it('should reject invalid columns, amounts and extra values', async () => {
+      const where = User.where((col) => col('id').equal(1));
+
+      await expect(where.increment('')).rejects.toThrow(
+        'Invalid increment column: '
+      );
+
+      await expect(where.decrement('views', NaN)).rejects.toThrow(
+        'Invalid increment amount: NaN'
+      );
+
+      await expect(
+        where.increment('views', 1, 'extra' as any)
+      ).rejects.toThrow('Invalid row: extra');
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('composite keys', () => {
+    class Member extends (MegaModel as any) {
+      static table = 'members';
+      static primaryKey = ['tenant_id', 'id'];
+      static foreignKey = ['tenant_id', 'member_id'];
+      static timestamps = false;
+      static relations = {
+        posts: { type: 'OneToMany', model: () => Post },
+      };
+    }
+
+    class Post extends (MegaModel as any) {
+      static table = 'posts';
+      static timestamps = false;
+    }
+
+    class Role extends MegaModel {
+      static table = 'roles';
+    }
+
+    let connection: any;
+
+    beforeEach(() => {
+      connection = mock.connection();
+
+      const builder = new MegaBuilder(connection);
+
+      Member.builder = builder;
+      Post.builder = builder;
+      Role.builder = builder;
+    });
+
+    it('should resolve the key and foreign key columns', () => {
+      expect(Member.get.keys()).toEqual(['tenant_id', 'id']);
+      expect(Member.get.fks()).toEqual(['tenant_id', 'member_id']);
+      expect(Post.get.keys()).toEqual(['id']);
+      expect(Post.get.fks()).toEqual(['post_id']);
+
+      expect(() => Member.get.pk()).toThrow(
+        'Unsupported composite primary key in Member model: tenant_id, id'
+      );
+
+      expect(() => Member.get.fk()).toThrow(
+        'Unsupported composite foreign key in Member model: tenant_id, member_id'
+      );
+    });
+
+    it('should default the foreign keys to the model name and key columns', () => {
+      class Account extends (MegaModel as any) {
+        static primaryKey = ['tenant_id', 'id'];
+      }
+
+      expect(Account.get.fks()).toEqual(['account_tenant_id', 'account_id']);
+    });
+
+    it('should find models by key tuples', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ tenant_id: 1, id: 5 }])
+        .mockResolvedValueOnce([
+          { tenant_id: 1, id: 5 },
+          { tenant_id: 2, id: 5 },
+        ]);
+
+      const member = await Member.find([1, 5]);
+      const members = await Member.findMany([
+        [1, 5],
+        [2, 5],
+      ]);
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        1,
+        'SELECT members.* FROM members WHERE tenant_id = ? AND id = ?;',
+        [1, 5]
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT members.* FROM members WHERE ((tenant_id = ? AND id = ?) OR (tenant_id = ? AND id = ?));',
+        [1, 5, 2, 5]
+      );
+
+      expect(member).toBeInstanceOf(Member);
+      expect(members).toHaveLength(2);
+    });
+
+    it('should reject keys that do not match the key columns', async () => {
+      await expect(Member.find(5)).rejects.toThrow('Invalid key: 5');
+      await expect(Member.find([1])).rejects.toThrow('Invalid key: 1');
+      await expect(Member.findMany([[1, 5], 6])).rejects.toThrow(
+        'Invalid keys: 1,5,6'
+      );
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+
+    it('should insert the key columns as part of the row', async () => {
+      connection.query = jest.fn().mockResolvedValueOnce(undefined);
+
+      const member = await Member.insert({ tenant_id: 1, id: 5, name: 'Ana' });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO members (tenant_id, id, name) VALUES (?, ?, ?);',
+        [1, 5, 'Ana']
+      );
+
+      expect(member).toEqual({ tenant_id: 1, id: 5, name: 'Ana' });
+    });
+
+    it('should update and delete models by all the key columns', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ tenant_id: 1, id: 5, name: 'Ana' }])
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined);
+
+      const member = await Member.find([1, 5]);
+
+      member.name = 'Eva';
+      await member.update();
+      await member.delete();
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'UPDATE members SET name = ? WHERE tenant_id = ? AND id = ?;',
+        ['Eva', 1, 5]
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        3,
+        'DELETE FROM members WHERE tenant_id = ? AND id = ?;',
+        [1, 5]
+      );
+    });
+
+    it('should eager load relations using all the foreign key columns', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([
+          { tenant_id: 1, id: 5 },
+          { tenant_id: 2, id: 5 },
+        ])
+        .mockResolvedValueOnce([
+          { id: 1, tenant_id: 2, member_id: 5 },
+          { id: 2, tenant_id: 1, member_id: 5 },
+        ]);
+
+      const members = await Member.with('posts').exec();
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT posts.* FROM posts WHERE ((tenant_id = ? AND member_id = ?) OR (tenant_id = ? AND member_id = ?));',
+        [1, 5, 2, 5]
+      );
+
+      expect(members[0].posts).toEqual([{ id: 2, tenant_id: 1, member_id: 5 }]);
+      expect(members[1].posts).toEqual([{ id: 1, tenant_id: 2, member_id: 5 }]);
+    });
+
+    it('should link and unlink models using all the foreign key columns', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ tenant_id: 1, id: 5 }])
+        .mockResolvedValue(undefined);
+
+      const member = await Member.find([1, 5]);
+      const role = new Role({ id: 3 });
+
+      await member.link(role);
+      await member.unlink(role);
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'INSERT INTO member_role (tenant_id, member_id, role_id) VALUES (?, ?, ?);',
+        [1, 5, 3]
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        3,
+        'DELETE FROM member_role WHERE tenant_id = ? AND member_id = ? AND role_id = ?;',
+        [1, 5, 3]
+      );
+    });
+
+    it('should return all the key columns of upserted rows in PostgreSQL', async () => {
+      connection.driver = mock.pg();
+      connection.query = jest.fn(() =>
+        Promise.resolve([{ tenant_id: 1, id: 7 }])
+      );
+
+      const [member] = await Member.upsert(
+        [{ tenant_id: 1, email: 'a@b.c' }],
+        { conflict: ['email'] }
+      );
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO members (tenant_id, email) VALUES (?, ?) ON CONFLICT (email) DO UPDATE SET email = EXCLUDED.email RETURNING tenant_id, id;',
+        [1, 'a@b.c']
+      );
+
+      expect(member.tenant_id).toBe(1);
+      expect(member.id).toBe(7);
+    });
+
+    it('should reject batch operations that need a single key column', async () => {
+      const message =
+        'Unsupported composite primary key in Member model: tenant_id, id';
+
+      await expect(
+        Member.updateMany([{ tenant_id: 1, id: 5 }])
+      ).rejects.toThrow(message);
+
+      await expect(Member.chunk(10, () => {})).rejects.toThrow(message);
+      await expect(Member.each(() => {})).rejects.toThrow(message);
+      await expect(Member.cursor().next()).rejects.toThrow(message);
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('keyType', () => {
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn(() => Promise.resolve());
+
+      User.builder = new MegaBuilder(connection);
+      User.table = 'users';
+      User.timestamps = false;
+      User.keyType = undefined;
+    });
+
+    it('should generate uuid primary keys on insert', async () => {
+      User.keyType = 'uuid';
+
+      const user = await User.insert({ email: 'a@gmail.com' });
+
+      expect(user.id).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+      );
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, id) VALUES (?, ?);',
+        ['a@gmail.com', user.id]
+      );
+    });
+
+    it('should generate ulid primary keys sorted by time', async () => {
+      User.keyType = 'ulid';
+
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      const first = await User.insert({ email: 'a@gmail.com' });
+
+      now.mockReturnValue(2000);
+      const second = await User.insert({ email: 'b@gmail.com' });
+
+      now.mockRestore();
+
+      expect(first.id).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+      expect(second.id).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+      expect(first.id < second.id).toBe(true);
+    });
+
+    it('should assign generated keys to every model of a batch insert', async () => {
+      User.keyType = jest
+        .fn()
+        .mockReturnValueOnce('k1')
+        .mockReturnValueOnce('k2');
+
+      const users = await User.insertMany([
+        { email: 'a@gmail.com' },
+        { email: 'b@gmail.com' },
+      ]);
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, id) VALUES (?, ?), (?, ?);',
+        ['a@gmail.com', 'k1', 'b@gmail.com', 'k2']
+      );
+
+      expect(users).toEqual([
+        { email: 'a@gmail.com', id: 'k1' },
+        { email: 'b@gmail.com', id: 'k2' },
+      ]);
+    });
+
+    it('should keep the given key and skip returning in PostgreSQL', async () => {
+      User.keyType = 'uuid';
+      connection.driver = mock.pg();
+
+      const user = await User.insert({ id: 'mine', email: 'a@gmail.com' });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (id, email) VALUES (?, ?);',
+        ['mine', 'a@gmail.com']
+      );
+
+      expect(user).toEqual({ id: 'mine', email: 'a@gmail.com' });
+    });
+
+    it('should generate keys on upsert and never update them', async () => {
+      User.keyType = jest
+        .fn()
+        .mockReturnValueOnce('k1')
+        .mockReturnValueOnce('k2');
+
+      const users = await User.upsert(
+        [{ email: 'a@gmail.com' }, { email: 'b@gmail.com' }],
+        { conflict: ['email'] }
+      );
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, id) VALUES (?, ?), (?, ?) ON DUPLICATE KEY UPDATE email = VALUES(email);',
+        ['a@gmail.com', 'k1', 'b@gmail.com', 'k2']
+      );
+
+      expect(users).toEqual([
+        { email: 'a@gmail.com', id: 'k1' },
+        { email: 'b@gmail.com', id: 'k2' },
+      ]);
+    });
+
+    it('should resolve with the existing key of a conflicting row in PostgreSQL', async () => {
+      User.keyType = jest.fn().mockReturnValueOnce('k1');
+      connection.driver = mock.pg();
+      connection.query = jest.fn(() => Promise.resolve([{ id: 'old' }]));
+
+      const [user] = await User.upsert([{ email: 'a@gmail.com' }], {
+        conflict: ['email'],
+      });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, id) VALUES (?, ?) ON CONFLICT (email) DO UPDATE SET email = EXCLUDED.email RETURNING id;',
+        ['a@gmail.com', 'k1']
+      );
+
+      expect(user).toEqual({ id: 'old', email: 'a@gmail.com' });
+    });
+  });
+
+  describe('versionColumn', () => {
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+    let emitter: EventEmitter;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn(() => Promise.resolve());
+
+      emitter = new EventEmitter();
+      emitter.emit = jest.fn();
+
+      connection.beginTransaction = jest.fn(() => Promise.resolve());
+      connection.commit = jest.fn(() => Promise.resolve());
+      connection.rollback = jest.fn(() => Promise.resolve());
+
+      User.builder = new MegaBuilder(connection);
+      User.pool = mock.pool(connection);
+      User.table = 'users';
+      User.timestamps = false;
+      User.versionColumn = 'version';
+      User.get.emitter = jest.fn().mockReturnValue(emitter);
+    });
+
+    it('should update by version and increment it', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, name: 'simon', version: 3 }])
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce([{ affected: 1 }]);
+
+      const user = await User.find(1);
+
+      user.name = 'john';
+      await user.update();
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'UPDATE users SET name = ?, version = version + 1 WHERE id = ? AND version = ?;',
+        ['john', 1, 3]
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        3,
+        'SELECT ROW_COUNT() AS affected;',
+        []
+      );
+
+      expect(user.version).toBe(4);
+      expect(user.isDirty()).toBe(false);
+      expect(emitter.emit).toHaveBeenCalledWith(UPDATED, user);
+    });
+
+    it('should reject with a conflict error if no row is affected', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, name: 'simon', version: 3 }])
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce([{ affected: 0 }]);
+
+      const user = await User.find(1);
+
+      user.name = 'john';
+      const promise = user.update();
+
+      await expect(promise).rejects.toThrow(MegaModelConflictError);
+      await expect(promise).rejects.toThrow(
+        'Conflicting update in User model: version 3 is outdated'
+      );
+
+      expect(user.version).toBe(3);
+      expect(user.isDirty('name')).toBe(true);
+      expect(emitter.emit).not.toHaveBeenCalledWith(UPDATED, user);
+    });
+
+    it('should count the affected rows on a dedicated connection', async () => {
+      const dedicated = mock.connection();
+
+      dedicated.beginTransaction = jest.fn(() => Promise.resolve());
+      dedicated.commit = jest.fn(() => Promise.resolve());
+      dedicated.rollback = jest.fn(() => Promise.resolve());
+      dedicated.query = jest
+        .fn()
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce([{ affected: 1 }]);
+
+      User.pool = mock.pool(dedicated);
+
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, name: 'simon', version: 3 }]);
+
+      const user = await User.find(1);
+
+      user.name = 'john';
+      await user.update();
+
+      expect(connection.query).toHaveBeenCalledTimes(1);
+      expect(dedicated.query).toHaveBeenNthCalledWith(
+        1,
+        'UPDATE users SET name = ?, version = version + 1 WHERE id = ? AND version = ?;',
+        ['john', 1, 3]
+      );
+
+      expect(dedicated.query).toHaveBeenNthCalledWith(
+        2,
+        'SELECT ROW_COUNT() AS affected;',
+        []
+      );
+
+      expect(dedicated.beginTransaction).toHaveBeenCalledTimes(1);
+      expect(dedicated.commit).toHaveBeenCalledTimes(1);
+      expect(dedicated.release).toHaveBeenCalledTimes(1);
+      expect(user.version).toBe(4);
+    });
+
+    it('should count the affected rows on the model connection without a pool', async () => {
+      User.pool = undefined;
+
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, name: 'simon', version: 3 }])
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce([{ affected: 1 }]);
+
+      const user = await User.find(1);
+
+      user.name = 'john';
+      await user.update();
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        3,
+        'SELECT ROW_COUNT() AS affected;',
+        []
+      );
+
+      expect(connection.beginTransaction).not.toHaveBeenCalled();
+      expect(user.version).toBe(4);
+    });
+
+    it('should count the affected rows on the transaction connection', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, name: 'simon', version: 3 }])
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce([{ affected: 1 }]);
+
+      await User.transaction(() =>
+        User.find(1).then((user: any) => {
+          user.name = 'john';
+          return user.update();
+        })
+      );
+
+      expect(connection.query).toHaveBeenCalledTimes(3);
+      expect(connection.beginTransaction).toHaveBeenCalledTimes(1);
+      expect(connection.commit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should count the returned rows in PostgreSQL', async () => {
+      connection.driver = mock.pg();
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, name: 'simon', version: 3 }])
+        .mockResolvedValueOnce([]);
+
+      const user = await User.find(1);
+
+      user.name = 'john';
+      await expect(user.update()).rejects.toThrow(MegaModelConflictError);
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'UPDATE users SET name = ?, version = version + 1 WHERE id = ? AND version = ? RETURNING 1 AS affected;',
+        ['john', 1, 3]
+      );
+    });
+
+    it('should guard deletes using the version', async () => {
+      connection.driver = { id: Symbol('SQLite') };
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, version: 3 }])
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce([{ affected: 0 }]);
+
+      const user = await User.find(1);
+
+      await expect(user.delete()).rejects.toThrow(
+        'Conflicting delete in User model: version 3 is outdated'
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'DELETE FROM users WHERE id = ? AND version = ?;',
+        [1, 3]
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        3,
+        'SELECT changes() AS affected;',
+        []
+      );
+
+      expect(emitter.emit).not.toHaveBeenCalledWith(DELETED, user);
+    });
+
+    it('should count the deleted rows in PostgreSQL', async () => {
+      connection.driver = mock.pg();
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, version: 3 }])
+        .mockResolvedValueOnce([{ affected: 1 }]);
+
+      const user = await User.find(1);
+
+      await user.forceDelete();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'DELETE FROM users WHERE id = ? AND version = ? RETURNING 1 AS affected;',
+        [1, 3]
+      );
+
+      expect(emitter.emit).toHaveBeenCalledWith(DELETED, user);
+    });
+
+    it('should increment the version on soft deletes', async () => {
+      User.softDeletes = true;
+
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, version: 3, deleted_at: null }])
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce([{ affected: 1 }]);
+
+      const user = await User.find(1);
+
+      await user.delete();
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'UPDATE users SET deleted_at = ?, version = version + 1 WHERE id = ? AND version = ?;',
+        [expect.any(String), 1, 3]
+      );
+
+      expect(user.version).toBe(4);
+      expect(user.isDirty()).toBe(false);
+
+      User.softDeletes = false;
+    });
+
+    it('should start the version at 1 on insert', async () => {
+      connection.query = jest.fn().mockResolvedValueOnce(1);
+
+      const user = await User.insert({ name: 'simon' });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (name, version) VALUES (?, ?);',
+        ['simon', 1]
+      );
+
+      expect(user).toEqual({ id: 1, name: 'simon', version: 1 });
+    });
+
+    it('should increment the version with the column', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, views: 5, version: 3 }])
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce([{ views: 6, version: 4 }]);
+
+      const user = await User.find(1);
+
+      await user.increment('views');
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        2,
+        'UPDATE users SET views = views + ?, version = version + 1 WHERE id = ?;',
+        [1, 1]
+      );
+
+      expect(connection.query).toHaveBeenNthCalledWith(
+        3,
+        'SELECT views, version FROM users WHERE id = ?;',
+        [1]
+      );
+
+      expect(user.views).toBe(6);
+      expect(user.version).toBe(4);
+      expect(user.isDirty()).toBe(false);
+    });
+
+    it('should return the fresh version in PostgreSQL', async () => {
+      connection.driver = mock.pg();
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, stock: 5, version: 3 }])
+        .mockResolvedValueOnce([{ stock: 4, version: 4 }]);
+
+      const user = await User.find(1);
+
+      await user.decrement('stock', 1, { version: 10 });
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'UPDATE users SET stock = stock - ?, version = version + 1 WHERE id = ? RETURNING stock, version;',
+        [1, 1]
+      );
+
+      expect(user.stock).toBe(4);
+      expect(user.version).toBe(4);
+    });
+
+    it('should increment the version of the rows matching the where conditions', async () => {
+      await User.where((col) => col('id').in(1, 2)).increment('views');
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'UPDATE users SET views = views + ?, version = version + 1 WHERE id IN (?, ?);',
+        [1, 1, 2]
+      );
+    });
+
+    it('should increment the version instead of updating it using where conditions', async () => {
+      await User.where((col) => col('id').equal(1)).update({
+        name: 'john',
+        version: 10,
+      });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'UPDATE users SET name = ?, version = version + 1 WHERE id = ?;',
+        ['john', 1]
+      );
+    });
+
+    it('should start the version at 1 and increment it on upsert conflict', async () => {
+      await User.upsert([{ email: 'a@b.c', name: 'john' }], {
+        conflict: ['email'],
+      });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, name, version) VALUES (?, ?, ?) ON DUPLICATE KEY UPDATE name = VALUES(name), version = version + 1;',
+        ['a@b.c', 'john', 1]
+      );
+    });
+
+    it('should resolve with the incremented version on upsert in PostgreSQL', async () => {
+      connection.driver = mock.pg();
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 7, version: 4 }]);
+
+      const [user] = await User.upsert([{ email: 'a@b.c', version: 10 }], {
+        conflict: ['email'],
+        update: ['version'],
+      });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, version) VALUES (?, ?) ON CONFLICT (email) DO UPDATE SET version = version + 1 RETURNING id, version;',
+        ['a@b.c', 10]
+      );
+
+      expect(user).toEqual({ id: 7, email: 'a@b.c', version: 4 });
+    });
+
+    it('should reject updateMany', async () => {
+      await expect(User.updateMany([{ id: 1, name: 'john' }])).rejects.toThrow(
+        'Unsupported versionColumn in User model: version'
+      );
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject if the model has no version', async () => {
+      connection.query = jest
+        .fn()
+        .mockResolvedValueOnce([{ id: 1, name: 'simon' }]);
+
+      const user = await User.find(1);
+
+      user.name = 'john';
+      await expect(user.update()).rejects.toThrow(
+        'Invalid version value: undefined'
+      );
+
+      expect(connection.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('locking', () => {
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn().mockResolvedValue([{ id: 1 }]);
+      connection.beginTransaction = jest.fn(() => Promise.resolve());
+      connection.commit = jest.fn(() => Promise.resolve());
+      connection.rollback = jest.fn(() => Promise.resolve());
+
+      User.builder = new MegaBuilder(connection);
+      User.pool = mock.pool(connection);
+      User.table = 'users';
+    });
+
+    it('should lock the selected rows for update inside a transaction', async () => {
+      const users = await User.transaction(() =>
+        User.select()
+          .where((col) => col('status').equal('active'))
+          .lockForUpdate()
+          .exec()
+      );
+
+      expect(users).toEqual([{ id: 1 }]);
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE status = ? FOR UPDATE;',
+        ['active']
+      );
+    });
+
+    it('should use the shared lock clause of each dialect', async () => {
+      await User.transaction(() => User.select().sharedLock().exec());
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users LOCK IN SHARE MODE;',
+        []
+      );
+
+      connection.driver = mock.pg();
+      await User.transaction(() => User.select().sharedLock().exec());
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users FOR SHARE;',
+        []
+      );
+
+      connection.driver = { id: Symbol('SQLite') };
+      await User.transaction(() => User.select().sharedLock().exec());
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users;',
+        []
+      );
+    });
+
+    it('should find and lock a model by its key', async () => {
+      const user = await User.transaction(() => User.findForUpdate(1));
+
+      expect(user).toEqual({ id: 1 });
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE id = ? FOR UPDATE;',
+        [1]
+      );
+    });
+
+    it('should reject locks outside a transaction', async () => {
+      await expect(User.select().lockForUpdate().exec()).rejects.toThrow(
+        'Cannot lock User rows outside a transaction'
+      );
+
+      await expect(User.findForUpdate(1)).rejects.toThrow(
+        'Cannot lock User rows outside a transaction'
+      );
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject locks on another connection than the transaction', async () => {
+      class Post extends (MegaModel as any) {}
+
+      Post.builder = new MegaBuilder(mock.connection());
+      Post.table = 'posts';
+
+      // Created outside the transaction, so it uses its own connection
+      const query = Post.select().sharedLock();
+
+      await expect(User.transaction(() => query.exec())).rejects.toThrow(
+        'Cannot lock Post rows outside a transaction'
+      );
+
+      expect(connection.rollback).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('scopes', () => {
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn().mockResolvedValue([{ id: 1 }]);
+
+      User.builder = new MegaBuilder(connection);
+      User.table = 'users';
+      User.scopes = {
+        active: (q) => q.where((col) => col('active').equal(1)),
+        adult: (q) => q.where((col) => col('age').greaterThan(17)),
+      };
+      User.globalScopes = undefined;
+    });
+
+    it('should add the local scopes to the query', async () => {
+      await User.scope('active').select().exec();
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT users.* FROM users WHERE (active = ?);',
+        [1]
+      );
+
+      await User.select()
+        .where((col) => col('role').equal('admin'))
+        .scope('active', 'adult')
+        .exec();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users WHERE (role = ?) AND (active = ?) AND (age > ?);',
+        ['admin', 1, 17]
+      );
+    });
+
+    it('should keep the OR conditions apart from the local scopes', async () => {
+      await User.select()
+        .where((col) => col('role').equal('admin'))
+        .or()
+        .where((col) => col('role').equal('editor'))
+        .scope('active')
+        .exec();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users WHERE (role = ? OR role = ?) AND (active = ?);',
+        ['admin', 'editor', 1]
+      );
+    });
+
+    it('should throw if the scope is not registered', () => {
+      expect(() => User.scope('banned')).toThrow(
+        new MegaModelError('Undefined scope in User model: banned')
+      );
+    });
+
+    it('should add the global scopes to select, find and findMany', async () => {
+      User.globalScopes = {
+        tenant: (q) => q.where((col) => col('tenant_id').equal(7)),
+      };
+
+      await User.select()
+        .where((col) => col('role').equal('admin'))
+        .or()
+        .where((col) => col('role').equal('editor'))
+        .exec();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users WHERE (role = ? OR role = ?) AND (tenant_id = ?);',
+        ['admin', 'editor', 7]
+      );
+
+      await User.find(1);
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users WHERE (id = ?) AND (tenant_id = ?);',
+        [1, 7]
+      );
+
+      await User.findMany([1, 2]);
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users WHERE (id IN (?, ?)) AND (tenant_id = ?);',
+        [1, 2, 7]
+      );
+    });
+
+    it('should add the global scopes to where queries', async () => {
+      User.globalScopes = {
+        tenant: (q) => q.where((col) => col('tenant_id').equal(7)),
+      };
+
+      await User.where((col) => col('age').lessThan(18)).update({ name: 'x' });
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'UPDATE users SET name = ? WHERE (age < ?) AND (tenant_id = ?);',
+        ['x', 18, 7]
+      );
+
+      await User.where((col) => col('age').lessThan(18)).delete();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'DELETE FROM users WHERE (age < ?) AND (tenant_id = ?);',
+        [18, 7]
+      );
+
+      await User.where((col) => col('age').lessThan(18)).select();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users WHERE (age < ?) AND (tenant_id = ?);',
+        [18, 7]
+      );
+    });
+
+    it('should add the global scopes to relationship queries', async () => {
+      class Post extends MegaModel {
+        static table = 'posts';
+        static globalScopes = {
+          published: (q) => q.where((col) => col('published').equal(1)),
+        };
+      }
+
+      class Author extends MegaModel {
+        static table = 'users';
+        static foreignKey = 'user_id';
+      }
+
+      Post.builder = new MegaBuilder(connection);
+
+      const author: any = new Author({ id: 1 });
+      await author.OneToMany(Post);
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT posts.* FROM posts WHERE (user_id = ?) AND (published = ?);',
+        [1, 1]
+      );
+    });
+
+    it('should remove the global scopes using withoutGlobalScope()', async () => {
+      User.globalScopes = {
+        tenant: (q) => q.where((col) => col('tenant_id').equal(7)),
+      };
+
+      await User.withoutGlobalScope('tenant').select().exec();
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users;',
+        []
+      );
+
+      await User.withoutGlobalScope('tenant').find(1);
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT users.* FROM users WHERE (id = ?);',
+        [1]
+      );
+
+      await User.withoutGlobalScope('tenant')
+        .scope('active')
+        .where((col) => col('age').lessThan(18))
+        .update({ name: 'x' });
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'UPDATE users SET name = ? WHERE (age < ?) AND (active = ?);',
+        ['x', 18, 1]
+      );
+    });
+
+    it('should throw if a global scope is not a function', () => {
+      User.globalScopes = { tenant: 'invalid' };
+
+      expect(() => User.select()).toThrow(
+        new MegaModelError('Invalid tenant global scope in User model')
+      );
+    });
+  });
+
+  describe('defaults', () => {
+    class User extends (MegaModel as any) {}
+
+    let connection: any;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      connection.query = jest.fn(() => Promise.resolve());
+
+      User.builder = new MegaBuilder(connection);
+      User.table = 'users';
+      User.timestamps = false;
+      User.defaults = { status: 'draft', views: () => 0 };
+    });
+
+    it('should assign the defaults to the missing columns on insert', async () => {
+      const user = await User.insert({
+        email: 'a@gmail.com',
+        status: 'published',
+      });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, status, views) VALUES (?, ?, ?);',
+        ['a@gmail.com', 'published', 0]
+      );
+
+      expect(user.status).toBe('published');
+      expect(user.views).toBe(0);
+    });
+
+    it('should assign the defaults to the missing columns on insertMany', async () => {
+      const users = await User.insertMany([
+        { email: 'a@gmail.com', status: 'published' },
+        { email: 'b@gmail.com', status: null },
+      ]);
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, status, views) VALUES (?, ?, ?), (?, NULL, ?);',
+        ['a@gmail.com', 'published', 0, 'b@gmail.com', 0]
+      );
+
+      expect(users[0].views).toBe(0);
+      expect(users[1].status).toBeNull();
+    });
+
+    it('should assign the defaults to the missing columns on upsert', async () => {
+      const users = await User.upsert(
+        [
+          { email: 'a@gmail.com' },
+          { email: 'b@gmail.com', status: 'published' },
+        ],
+        { conflict: ['email'] }
+      );
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email, status, views) VALUES (?, ?, ?), (?, ?, ?) ON DUPLICATE KEY UPDATE status = VALUES(status), views = VALUES(views);',
+        ['a@gmail.com', 'draft', 0, 'b@gmail.com', 'published', 0]
+      );
+
+      expect(users[0].status).toBe('draft');
+      expect(users[1].views).toBe(0);
+    });
+
+    it('should assign the defaults to new models', () => {
+      class Post extends MegaModel {
+        static table = 'posts';
+        static defaults = { status: 'draft', tags: () => [] };
+      }
+
+      const first: any = new Post({ title: 'Hello' });
+      const second: any = new Post();
+
+      expect(first).toEqual({ title: 'Hello', status: 'draft', tags: [] });
+      expect(second).toEqual({ status: 'draft', tags: [] });
+      expect(first.tags).not.toBe(second.tags);
+      expect(first.isDirty()).toBe(false);
+    });
+
+    it('should not assign the defaults to selected models', async () => {
+      connection.query = jest.fn().mockResolvedValue([{ id: 1 }]);
+
+      const user = await User.find(1);
+
+      expect(user).toEqual({ id: 1 });
+      expect(user.status).toBeUndefined();
+    });
+
+    it('should assign the defaults to models created while hydrating', async () => {
+      class Post extends MegaModel {
+        static table = 'posts';
+        static defaults = { status: 'draft' };
+      }
+
+      class Author extends (User as any) {
+        constructor(row?: any) {
+          super(row);
+          this.draft = new Post();
+        }
+      }
+
+      connection.query = jest.fn().mockResolvedValue([{ id: 1 }]);
+
+      const author = await (Author as any).find(1);
+
+      expect(author.status).toBeUndefined();
+      expect(author.draft).toEqual({ status: 'draft' });
+    });
+
+    it('should ignore invalid defaults', async () => {
+      User.defaults = 'invalid';
+
+      await User.insert({ email: 'a@gmail.com' });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'INSERT INTO users (email) VALUES (?);',
+        ['a@gmail.com']
+      );
+    });
+  });
+
+  describe('serialization', () => {
+    class Post extends MegaModel {
+      static table = 'posts';
+      static hidden = ['draft'];
+    }
+
+    class User extends MegaModel {
+      static table = 'users';
+      static hidden = ['password'];
+      static visible: Array<string>;
+    }
+
+    beforeEach(() => {
+      User.hidden = ['password'];
+      User.visible = undefined;
+    });
+
+    it('should exclude the hidden columns', () => {
+      const user = new User({ id: 1, email: 'a@gmail.com', password: 'x' });
+
+      expect(user.toJSON()).toEqual({ id: 1, email: 'a@gmail.com' });
+      expect(JSON.stringify(user)).toBe('{"id":1,"email":"a@gmail.com"}');
+    });
+
+    it('should only include the visible columns', () => {
+      User.visible = ['id', 'password'];
+
+      const user = new User({ id: 1, email: 'a@gmail.com', password: 'x' });
+
+      expect(user.toJSON()).toEqual({ id: 1 });
+    });
+
+    it('should include the loaded relations', () => {
+      const user: any = new User({ id: 1, password: 'x' });
+
+      user.posts = [new Post({ id: 1, draft: true }), new Post({ id: 2 })];
+      user.profile = new Post({ id: 3, draft: false });
+
+      expect(user.toJSON()).toEqual({
+        id: 1,
+        posts: [{ id: 1 }, { id: 2 }],
+        profile: { id: 3 },
+      });
+    });
+
+    it('should override the visibility of an instance', () => {
+      const user = new User({ id: 1, email: 'a@gmail.com', password: 'x' });
+      const other = new User({ id: 2, email: 'b@gmail.com', password: 'y' });
+
+      expect(user.makeVisible('password').makeHidden('email').toJSON()).toEqual(
+        { id: 1, password: 'x' }
+      );
+
+      expect(user.makeHidden('password').toJSON()).toEqual({ id: 1 });
+      expect(other.toJSON()).toEqual({ id: 2, email: 'b@gmail.com' });
+    });
+
+    it('should keep the hydrated values unchanged', () => {
+      const user: any = new User({ id: 1, password: 'x' });
+
+      expect(user.password).toBe('x');
+      expect(user).toEqual({ id: 1, password: 'x' });
+      expect(user.isDirty()).toBe(false);
+    });
+  });
 });